@@ -1,19 +1,278 @@
-import React, { useState } from 'react';
-import BrowserGrid from './components/BrowserGrid';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import BrowserGrid, { BrowserGridHandle } from './components/BrowserGrid';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import ActivityPanel from './components/ActivityPanel';
+import CommandPalette from './components/CommandPalette';
+import ShortcutsOverlay from './components/ShortcutsOverlay';
+import {
+  LayoutPreset,
+  LAYOUT_PRESETS,
+  DEFAULT_FRAME_COUNT,
+  MIN_FRAMES,
+  MAX_FRAMES,
+  clampFrameCount,
+} from './utils/gridLayout';
+import {
+  Workspace,
+  GridSnapshot,
+  GridViewState,
+  WORKSPACE_SCHEMA_VERSION,
+  createWorkspaceId,
+  loadWorkspaces,
+  saveWorkspaces,
+  loadSession,
+  saveSession,
+  serializeWorkspaces,
+} from './utils/workspaces';
+import { downloadFile } from './utils/download';
+import { encodeSnapshot, hasHashSnapshot, readHashSnapshot, toHash } from './utils/deepLink';
+import { checkUrl } from './utils/url';
+import { addRecentUrl, RECENT_URLS_LIST_ID } from './utils/recentUrls';
+import { useRecentUrls } from './hooks/useRecentUrls';
+import { useRemoteControl } from './hooks/useRemoteControl';
+import { RemoteCommand } from './utils/remoteControl';
+import { recordActivity } from './utils/activityLog';
+import { PaletteCommand } from './utils/commands';
+import { ShortcutAction, loadShortcuts, saveShortcuts } from './utils/shortcuts';
+import { useShortcuts } from './hooks/useShortcuts';
 
 const App: React.FC = () => {
-  const [inputUrl, setInputUrl] = useState('');
-  const [activeUrl, setActiveUrl] = useState('');
+  // Last session is restored once, on startup
+  const [session] = useState(loadSession);
+  const [inputUrl, setInputUrl] = useState(session?.masterUrl ?? '');
+  const [activeUrl, setActiveUrl] = useState(session?.masterUrl ?? '');
+  const [inputError, setInputError] = useState<string | null>(null);
+  const recentUrls = useRecentUrls();
+  const [frameCount, setFrameCount] = useState(session?.frames.length ?? DEFAULT_FRAME_COUNT);
+  // What's typed in the frame count field, applied on blur or Enter (null while not editing)
+  const [countDraft, setCountDraft] = useState<string | null>(null);
+  const [layout, setLayout] = useState<LayoutPreset>(session?.layout ?? 'auto');
+
+  // Bumping the seed key remounts BrowserGrid with a new initial state
+  const [gridSeed, setGridSeed] = useState<{ key: number; state: GridViewState | null }>({ key: 0, state: session });
+  const [gridState, setGridState] = useState<GridViewState | null>(session);
+
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(loadWorkspaces);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+
+  // A #grid= link wins over the restored session; hold the grid back until it is decoded
+  const [isHydrating, setIsHydrating] = useState(() => hasHashSnapshot());
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const gridRef = useRef<BrowserGridHandle>(null);
+  const [shortcuts, setShortcuts] = useState(loadShortcuts);
+  const [overlay, setOverlay] = useState<'palette' | 'shortcuts' | null>(null);
+
+  const snapshot = useMemo<GridSnapshot | null>(
+    () => gridState && { ...gridState, masterUrl: activeUrl, layout },
+    [gridState, activeUrl, layout]
+  );
+
+  useEffect(() => {
+    if (snapshot) saveSession(snapshot);
+  }, [snapshot]);
+
+  useEffect(() => {
+    saveWorkspaces(workspaces);
+  }, [workspaces]);
+
+  useEffect(() => {
+    saveShortcuts(shortcuts);
+  }, [shortcuts]);
+
+  // Master URL and layout changes go to the activity log (the values on startup don't)
+  const loggedAppRef = useRef({ activeUrl, layout });
+  useEffect(() => {
+    const prev = loggedAppRef.current;
+    loggedAppRef.current = { activeUrl, layout };
+    if (prev.activeUrl !== activeUrl) recordActivity({ type: 'navigate', message: activeUrl ? `Master URL set to ${activeUrl}` : 'Master URL cleared' });
+    if (prev.layout !== layout) recordActivity({ type: 'grid', message: `Layout set to ${LAYOUT_PRESETS.find(p => p.id === layout)?.label ?? layout}` });
+  }, [activeUrl, layout]);
+
+  const applySnapshot = (state: GridSnapshot) => {
+    setInputUrl(state.masterUrl);
+    setActiveUrl(state.masterUrl);
+    setFrameCount(state.frames.length);
+    setLayout(state.layout);
+    setGridSeed(prev => ({ key: prev.key + 1, state }));
+  };
+
+  // Hydrate from the hash on startup and on every history navigation (popstate also fires for
+  // hash edits). Entries without a #grid= hash, e.g. the page before the first copied link,
+  // keep their grid in history.state.
+  useEffect(() => {
+    const applyHash = async () => {
+      const entryState: unknown = window.history.state;
+      const storedHash = entryState && typeof entryState === 'object' && 'grid' in entryState && typeof entryState.grid === 'string'
+        ? entryState.grid : null;
+      const hash = hasHashSnapshot() ? window.location.hash : storedHash ?? window.location.hash;
+      const state = await readHashSnapshot(hash);
+      if (state) {
+        applySnapshot(state);
+        setActiveWorkspaceId(null);
+        recordActivity({ type: 'grid', message: hash === storedHash ? 'Restored grid from browser history' : 'Restored grid from a shared link' });
+      }
+      setIsHydrating(false);
+    };
+
+    applyHash();
+    window.addEventListener('popstate', applyHash);
+    return () => window.removeEventListener('popstate', applyHash);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleCopyLink = async () => {
+    if (!snapshot) return;
+    try {
+      const hash = toHash(await encodeSnapshot(snapshot));
+      // Pushing (rather than replacing) lets back/forward step between shared states. The
+      // entry being left remembers its grid, so going back restores it even without a hash.
+      if (hash !== window.location.hash) {
+        window.history.replaceState({ grid: hash }, '');
+        window.history.pushState(null, '', hash);
+      }
+      await navigator.clipboard.writeText(window.location.href);
+      setCopyStatus('copied');
+    } catch {
+      setCopyStatus('failed');
+    }
+    setTimeout(() => setCopyStatus('idle'), 2000);
+  };
+
+  // An empty field keeps the current count
+  const commitCountDraft = () => {
+    if (countDraft === null) return;
+    if (countDraft.trim()) setFrameCount(clampFrameCount(Number(countDraft)));
+    setCountDraft(null);
+  };
+
+  const handleLoadWorkspace = (workspace: Workspace) => {
+    applySnapshot(workspace.state);
+    setActiveWorkspaceId(workspace.id);
+    recordActivity({ type: 'grid', message: `Loaded workspace "${workspace.name}"` });
+  };
+
+  const handleSaveWorkspace = (name: string) => {
+    if (!snapshot) return;
+    const workspace: Workspace = { id: createWorkspaceId(), name, updatedAt: Date.now(), state: snapshot };
+    setWorkspaces(prev => [...prev, workspace]);
+    setActiveWorkspaceId(workspace.id);
+  };
+
+  const handleUpdateWorkspace = (id: string) => {
+    if (!snapshot) return;
+    setWorkspaces(prev => prev.map(w => w.id === id ? { ...w, state: snapshot, updatedAt: Date.now() } : w));
+  };
+
+  const handleDeleteWorkspace = (id: string) => {
+    setWorkspaces(prev => prev.filter(w => w.id !== id));
+    if (activeWorkspaceId === id) setActiveWorkspaceId(null);
+  };
+
+  // Imported workspaces replace saved ones with the same id, so re-importing a shared file updates it
+  const handleImportWorkspaces = (imported: Workspace[]) => {
+    setWorkspaces(prev => [
+      ...prev.filter(w => !imported.some(i => i.id === w.id)),
+      ...imported,
+    ]);
+  };
+
+  const handleExportWorkspaces = () => {
+    downloadFile(`omniview-workspaces-v${WORKSPACE_SCHEMA_VERSION}.json`, serializeWorkspaces(workspaces));
+  };
+
+  // Commands from a controller window or script (see utils/remoteControl.ts)
+  const handleRemoteCommand = (command: RemoteCommand): string | null => {
+    const grid = gridRef.current;
+    switch (command.type) {
+      case 'setMasterUrl': {
+        const result = checkUrl(command.url);
+        if (!result.ok) return result.reason;
+        setInputError(null);
+        setInputUrl(result.url);
+        setActiveUrl(result.url);
+        return null;
+      }
+      case 'setLayout':
+        setLayout(command.layout);
+        return null;
+      case 'loadWorkspace': {
+        const name = command.workspace.trim().toLowerCase();
+        const workspace = workspaces.find(w => w.id === command.workspace) ?? workspaces.find(w => w.name.toLowerCase() === name);
+        if (!workspace) return `No saved workspace "${command.workspace}"`;
+        handleLoadWorkspace(workspace);
+        return null;
+      }
+      case 'getState':
+        emitRemoteEvent({
+          type: 'state',
+          masterUrl: activeUrl,
+          layout,
+          frames: grid?.getFrames() ?? [],
+          workspaces: workspaces.map(w => ({ id: w.id, name: w.name })),
+        });
+        return null;
+    }
+
+    if (!grid) return 'The grid is not ready yet';
+    switch (command.type) {
+      case 'setFrameUrl':
+        return grid.setFrameUrl(command.frame, command.url);
+      case 'lock':
+        return grid.setFrameLocked(command.frame, command.locked);
+      case 'refresh':
+        return grid.refreshFrame(command.frame);
+      case 'refreshAll':
+        grid.refreshAll();
+        return null;
+    }
+  };
+
+  const emitRemoteEvent = useRemoteControl(command => {
+    const error = handleRemoteCommand(command);
+    // State polling from controllers would drown out everything else
+    if (command.type !== 'getState') {
+      const { type, ...args } = command;
+      const details = Object.keys(args).length ? ` ${JSON.stringify(args)}` : '';
+      recordActivity({ type: 'remote', message: `${type}${details}${error ? ` rejected: ${error}` : ''}` });
+    }
+    return error;
+  });
+
+  // App-level palette commands; the grid adds its own and its frames'
+  const getCommands = (): PaletteCommand[] => [
+    { id: 'palette', title: 'Open command palette', action: 'openPalette', run: () => setOverlay('palette') },
+    { id: 'shortcuts', title: 'Show keyboard shortcuts', keywords: 'keys bindings help', action: 'showShortcuts', run: () => setOverlay('shortcuts') },
+    { id: 'copy-link', title: 'Copy link to this grid', keywords: 'share', run: handleCopyLink },
+    { id: 'add-frame', title: 'Add frame', run: () => setFrameCount(c => clampFrameCount(c + 1)) },
+    { id: 'remove-frame', title: 'Remove frame', run: () => setFrameCount(c => clampFrameCount(c - 1)) },
+    ...LAYOUT_PRESETS.map(p => ({ id: `layout-${p.id}`, title: `Layout: ${p.label}`, run: () => setLayout(p.id) })),
+    ...workspaces.map(w => ({ id: `workspace-${w.id}`, title: `Load workspace: ${w.name}`, run: () => handleLoadWorkspace(w) })),
+    { id: 'export-workspaces', title: 'Export workspaces', run: handleExportWorkspaces },
+    ...(gridRef.current?.getCommands() ?? []),
+  ];
+
+  const runShortcut = (action: ShortcutAction) => {
+    getCommands().find(c => c.action === action)?.run();
+  };
+
+  useShortcuts(overlay === null && !isHydrating, shortcuts, runShortcut, tile => gridRef.current?.selectTile(tile));
 
   const handleLaunch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputUrl.trim()) {
-      setActiveUrl(inputUrl.trim());
+    if (!inputUrl.trim()) return;
+    const result = checkUrl(inputUrl);
+    if (!result.ok) {
+      setInputError(result.reason);
+      return;
     }
+    setInputError(null);
+    setInputUrl(result.url);
+    setActiveUrl(result.url);
+    addRecentUrl(result.url);
   };
 
   return (
-    <div className="min-h-screen bg-slate-950 flex flex-col text-slate-200">
+    <div className="h-screen bg-slate-950 flex flex-col text-slate-200">
       {/* Header */}
       <header className="flex-none h-16 border-b border-slate-800 bg-slate-900/50 backdrop-blur-sm flex items-center px-6 justify-between sticky top-0 z-40">
         <div className="flex items-center space-x-3">
@@ -35,10 +294,19 @@ const App: React.FC = () => {
             <input
               type="text"
               value={inputUrl}
-              onChange={(e) => setInputUrl(e.target.value)}
+              list={RECENT_URLS_LIST_ID}
+              onChange={(e) => {
+                setInputUrl(e.target.value);
+                setInputError(null);
+              }}
               placeholder="Enter target URL (e.g. example.com)..."
-              className="block w-full pl-10 pr-24 py-2 border border-slate-700 rounded-full leading-5 bg-slate-900 text-slate-300 placeholder-slate-500 focus:outline-none focus:bg-slate-800 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 sm:text-sm transition-all shadow-inner"
+              title={inputError ?? undefined}
+              aria-invalid={!!inputError}
+              className={`block w-full pl-10 pr-24 py-2 border ${inputError ? 'border-red-500 text-red-300' : 'border-slate-700 text-slate-300'} rounded-full leading-5 bg-slate-900 placeholder-slate-500 focus:outline-none focus:bg-slate-800 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 sm:text-sm transition-all shadow-inner`}
             />
+            <datalist id={RECENT_URLS_LIST_ID}>
+              {recentUrls.map(url => <option key={url} value={url} />)}
+            </datalist>
             <button 
               type="submit"
               className="absolute inset-y-1 right-1 px-4 border border-transparent text-xs font-medium rounded-full text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors"
@@ -49,16 +317,107 @@ const App: React.FC = () => {
         </form>
 
         <div className="flex items-center space-x-4 text-sm font-medium text-slate-400">
-          <span className="hidden md:inline-block">10x Views Active</span>
+          <button
+            onClick={handleCopyLink}
+            disabled={!snapshot}
+            className={`flex items-center space-x-1.5 bg-slate-900 border rounded-full px-3 py-1 text-xs transition-colors disabled:opacity-40 ${
+              copyStatus === 'copied' ? 'border-emerald-500/50 text-emerald-300' :
+              copyStatus === 'failed' ? 'border-orange-500/50 text-orange-300' :
+              'border-slate-700 text-slate-300 hover:border-slate-500'
+            }`}
+            title="Copy a link that recreates this exact grid"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+            </svg>
+            <span>{copyStatus === 'copied' ? 'Copied!' : copyStatus === 'failed' ? 'Link in address bar' : 'Copy Link'}</span>
+          </button>
+          <WorkspaceSwitcher
+            workspaces={workspaces}
+            activeId={activeWorkspaceId}
+            onLoad={handleLoadWorkspace}
+            onSaveAs={handleSaveWorkspace}
+            onUpdate={handleUpdateWorkspace}
+            onDelete={handleDeleteWorkspace}
+            onImport={handleImportWorkspaces}
+            onExport={handleExportWorkspaces}
+          />
+          <div className="flex items-center bg-slate-900 border border-slate-700 rounded-full overflow-hidden">
+            <button
+              onClick={() => setFrameCount(c => clampFrameCount(c - 1))}
+              disabled={frameCount <= MIN_FRAMES}
+              className="px-2.5 py-1 hover:bg-slate-800 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              title="Remove frame"
+            >
+              -
+            </button>
+            <input
+              type="number"
+              min={MIN_FRAMES}
+              max={MAX_FRAMES}
+              value={countDraft ?? frameCount}
+              onChange={(e) => setCountDraft(e.target.value)}
+              onBlur={commitCountDraft}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitCountDraft();
+                if (e.key === 'Escape') setCountDraft(null);
+              }}
+              className="w-10 bg-transparent text-center text-slate-200 font-mono text-xs focus:outline-none [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none"
+              title="Number of frames"
+            />
+            <button
+              onClick={() => setFrameCount(c => clampFrameCount(c + 1))}
+              disabled={frameCount >= MAX_FRAMES}
+              className="px-2.5 py-1 hover:bg-slate-800 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              title="Add frame"
+            >
+              +
+            </button>
+          </div>
+          <select
+            value={layout}
+            onChange={(e) => setLayout(e.target.value as LayoutPreset)}
+            className="bg-slate-900 border border-slate-700 rounded-full px-3 py-1 text-xs text-slate-300 focus:outline-none focus:border-indigo-500 cursor-pointer"
+            title="Grid layout"
+          >
+            {LAYOUT_PRESETS.map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+          <span className="hidden md:inline-block">{frameCount}x {frameCount === 1 ? 'View' : 'Views'} Active</span>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="flex-1 relative overflow-hidden flex flex-col">
         <div className="flex-1 overflow-hidden">
-            <BrowserGrid url={activeUrl} count={10} />
+            {isHydrating ? (
+              <div className="h-full flex items-center justify-center text-xs font-mono text-slate-500">
+                Restoring shared grid...
+              </div>
+            ) : (
+              <BrowserGrid
+                key={gridSeed.key}
+                ref={gridRef}
+                url={activeUrl}
+                count={frameCount}
+                layout={layout}
+                initialState={gridSeed.state}
+                onStateChange={setGridState}
+                onFrameEvent={emitRemoteEvent}
+                onLayoutChange={setLayout}
+              />
+            )}
         </div>
+        <ActivityPanel />
       </main>
+
+      {overlay === 'palette' && (
+        <CommandPalette commands={getCommands()} shortcuts={shortcuts} onClose={() => setOverlay(null)} />
+      )}
+      {overlay === 'shortcuts' && (
+        <ShortcutsOverlay shortcuts={shortcuts} onChange={setShortcuts} onClose={() => setOverlay(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { useActivityLog } from '../hooks/useActivityLog';
+import {
+    ActivityType,
+    ACTIVITY_TYPES,
+    clearActivity,
+    getDroppedActivityCount,
+    getLoadStats,
+    formatLoadStats,
+    toActivityCsv,
+    toActivityJson,
+} from '../utils/activityLog';
+import { formatLoadTime } from '../utils/frameLoad';
+import { downloadFile, toFileSlug } from '../utils/download';
+
+const TYPE_STYLES: Record<ActivityType, string> = {
+    navigate: 'text-indigo-300',
+    preview: 'text-orange-300',
+    schedule: 'text-yellow-400',
+    load: 'text-emerald-400',
+    error: 'text-red-400',
+    suspend: 'text-slate-400',
+    lock: 'text-orange-400',
+    frame: 'text-sky-300',
+    grid: 'text-purple-300',
+    uptime: 'text-teal-300',
+    remote: 'text-pink-300',
+};
+
+const formatTime = (at: number) => {
+    const date = new Date(at);
+    return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+// Collapsible timeline of everything recorded to the activity log, docked under the grid
+const ActivityPanel: React.FC = () => {
+    const entries = useActivityLog();
+    const [isOpen, setIsOpen] = useState(false);
+    const [frameFilter, setFrameFilter] = useState<number | 'all' | 'grid'>('all');
+    const [typeFilter, setTypeFilter] = useState<ActivityType | 'all'>('all');
+
+    // Frames seen in the log, labelled with their latest tile number
+    const frameOptions = new Map<number, number | null>();
+    entries.forEach(e => {
+        if (e.frameId !== null) frameOptions.set(e.frameId, e.tile);
+    });
+
+    const filtered = entries.filter(e =>
+        (typeFilter === 'all' || e.type === typeFilter) &&
+        (frameFilter === 'all' || (frameFilter === 'grid' ? e.frameId === null : e.frameId === frameFilter))
+    );
+    const stats = isOpen ? getLoadStats() : [];
+    const dropped = getDroppedActivityCount();
+
+    const exportAs = (format: 'csv' | 'json') => {
+        const filename = `omniview-activity-${toFileSlug(new Date().toISOString())}.${format}`;
+        if (format === 'csv') downloadFile(filename, toActivityCsv(filtered), 'text/csv');
+        else downloadFile(filename, toActivityJson(filtered));
+    };
+
+    const controlClass = 'bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-slate-300 focus:outline-none focus:border-indigo-500';
+
+    return (
+        <div className="flex-none border-t border-slate-800 bg-slate-900 text-[11px]">
+            <div className="flex items-center px-4 py-1 space-x-3">
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className="flex items-center space-x-1.5 text-slate-400 hover:text-white transition-colors"
+                    title={isOpen ? 'Hide activity timeline' : 'Show activity timeline'}
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className={`h-3 w-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M14.707 12.707a1 1 0 01-1.414 0L10 9.414l-3.293 3.293a1 1 0 01-1.414-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 010 1.414z" clipRule="evenodd" />
+                    </svg>
+                    <span className="font-semibold uppercase tracking-wider">Activity</span>
+                    <span className="font-mono text-slate-500">{entries.length}</span>
+                </button>
+
+                {!isOpen && entries.length > 0 && (
+                    <span className="flex-1 truncate font-mono text-slate-500">
+                        <span className="mr-2">{formatTime(entries[entries.length - 1].at)}</span>
+                        {entries[entries.length - 1].tile !== null && `#${entries[entries.length - 1].tile} `}
+                        {entries[entries.length - 1].message}
+                    </span>
+                )}
+
+                {isOpen && (
+                    <>
+                        <select
+                            value={String(frameFilter)}
+                            onChange={(e) => setFrameFilter(e.target.value === 'all' || e.target.value === 'grid' ? e.target.value : Number(e.target.value))}
+                            className={controlClass}
+                        >
+                            <option value="all">All frames</option>
+                            <option value="grid">Grid only</option>
+                            {[...frameOptions].sort((a, b) => (a[1] ?? 0) - (b[1] ?? 0)).map(([id, tile]) => (
+                                <option key={id} value={id}>{tile === null ? `Frame ${id}` : `#${tile}`}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={typeFilter}
+                            onChange={(e) => setTypeFilter(e.target.value as ActivityType | 'all')}
+                            className={controlClass}
+                        >
+                            <option value="all">All events</option>
+                            {ACTIVITY_TYPES.map(t => (
+                                <option key={t.id} value={t.id}>{t.label}</option>
+                            ))}
+                        </select>
+                        <span className="text-slate-500">
+                            {filtered.length} shown{dropped > 0 && ` · ${dropped} older dropped`}
+                        </span>
+                        <div className="flex-1"></div>
+                        <button onClick={() => exportAs('csv')} className="px-1.5 rounded text-slate-300 hover:text-white hover:bg-slate-700 transition-colors">
+                            Export CSV
+                        </button>
+                        <button onClick={() => exportAs('json')} className="px-1.5 rounded text-slate-300 hover:text-white hover:bg-slate-700 transition-colors">
+                            Export JSON
+                        </button>
+                        <button onClick={clearActivity} className="px-1.5 rounded text-slate-500 hover:text-red-300 hover:bg-slate-700 transition-colors">
+                            Clear
+                        </button>
+                    </>
+                )}
+            </div>
+
+            {isOpen && (
+                <div className="flex h-56 border-t border-slate-800">
+                    <div className="flex-1 overflow-y-auto font-mono">
+                        {filtered.length === 0 ? (
+                            <p className="px-4 py-6 text-center text-slate-500">No activity recorded{entries.length ? ' for this filter' : ' yet'}.</p>
+                        ) : [...filtered].reverse().map(e => (
+                            <div key={e.seq} className="flex items-baseline px-4 py-0.5 space-x-3 hover:bg-slate-800/50">
+                                <span className="flex-none text-slate-600">{formatTime(e.at)}</span>
+                                <span className="flex-none w-8 text-slate-500">{e.tile === null ? '' : `#${e.tile}`}</span>
+                                <span className={`flex-none w-16 truncate ${TYPE_STYLES[e.type]}`}>{e.type}</span>
+                                <span className="flex-1 truncate text-slate-300" title={e.message}>{e.message}</span>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="w-64 flex-none overflow-y-auto border-l border-slate-800 px-3 py-2">
+                        <div className="mb-1 font-semibold text-slate-400">Load times <span className="font-normal text-slate-500">(min / median / max)</span></div>
+                        {stats.length === 0 ? (
+                            <p className="text-slate-500">No completed loads yet.</p>
+                        ) : stats.map(s => (
+                            <div key={s.frameId} className="flex items-baseline space-x-2 font-mono" title={`${s.count} loads, fastest ${formatLoadTime(s.minMs)}, slowest ${formatLoadTime(s.maxMs)}`}>
+                                <span className="w-8 text-slate-500">{s.tile === null ? '' : `#${s.tile}`}</span>
+                                <span className="flex-1 text-slate-300">{formatLoadStats(s)}</span>
+                                <span className="text-slate-600">×{s.count}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ActivityPanel;
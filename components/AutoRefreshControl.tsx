@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import {
+    AutoRefreshState,
+    REFRESH_INTERVAL_PRESETS,
+    MIN_REFRESH_INTERVAL,
+    getRemaining,
+    formatInterval,
+    formatCountdown,
+} from '../utils/autoRefresh';
+
+interface AutoRefreshControlProps {
+    state: AutoRefreshState;
+    gridPaused: boolean;
+    onIntervalChange: (interval: number) => void;
+    onTogglePause: () => void;
+}
+
+const CUSTOM_VALUE = -1;
+
+const COUNTDOWN_TICK = 1000;
+
+// Footer widget: interval picker, countdown and pause/resume for one frame
+const AutoRefreshControl: React.FC<AutoRefreshControlProps> = ({ state, gridPaused, onIntervalChange, onTogglePause }) => {
+    const [isEditingCustom, setIsEditingCustom] = useState(false);
+    const [customSeconds, setCustomSeconds] = useState('');
+    const [now, setNow] = useState(() => Date.now());
+
+    // The countdown ticks here rather than in the grid, so only this widget re-renders each second
+    useEffect(() => {
+        setNow(Date.now());
+        if (state.dueAt === null) return;
+        const interval = setInterval(() => setNow(Date.now()), COUNTDOWN_TICK);
+        return () => clearInterval(interval);
+    }, [state.dueAt]);
+
+    const isCustom = state.interval > 0 && !REFRESH_INTERVAL_PRESETS.includes(state.interval);
+    const isPaused = state.paused || gridPaused;
+
+    const commitCustom = () => {
+        const seconds = Number(customSeconds);
+        if (seconds > 0) onIntervalChange(Math.max(MIN_REFRESH_INTERVAL, Math.round(seconds * 1000)));
+        setIsEditingCustom(false);
+    };
+
+    return (
+        <div className="flex items-center space-x-1 text-[9px] font-mono text-slate-500">
+            <svg xmlns="http://www.w3.org/2000/svg" className={`h-2.5 w-2.5 ${state.interval && !isPaused ? 'text-sky-400' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+
+            {isEditingCustom ? (
+                <input
+                    type="number"
+                    min={MIN_REFRESH_INTERVAL / 1000}
+                    autoFocus
+                    value={customSeconds}
+                    onChange={(e) => setCustomSeconds(e.target.value)}
+                    onBlur={commitCustom}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitCustom();
+                        if (e.key === 'Escape') setIsEditingCustom(false);
+                    }}
+                    placeholder="sec"
+                    className="w-10 bg-slate-800 border border-slate-700 rounded px-1 text-slate-300 focus:outline-none focus:border-indigo-500"
+                />
+            ) : (
+                <select
+                    value={state.interval}
+                    onChange={(e) => {
+                        const value = Number(e.target.value);
+                        if (value === CUSTOM_VALUE) {
+                            setCustomSeconds(state.interval ? String(state.interval / 1000) : '');
+                            setIsEditingCustom(true);
+                        } else {
+                            onIntervalChange(value);
+                        }
+                    }}
+                    className="bg-transparent border-none focus:outline-none cursor-pointer py-0 pl-0 pr-1 text-[9px] text-slate-400"
+                    title="Auto-refresh interval"
+                >
+                    {REFRESH_INTERVAL_PRESETS.map(ms => (
+                        <option key={ms} value={ms}>{formatInterval(ms)}</option>
+                    ))}
+                    {isCustom && <option value={state.interval}>{formatInterval(state.interval)}</option>}
+                    <option value={CUSTOM_VALUE}>Custom…</option>
+                </select>
+            )}
+
+            {state.interval > 0 && !isEditingCustom && (
+                <>
+                    <span className={isPaused ? 'text-slate-600' : 'text-sky-300'}>
+                        {formatCountdown(getRemaining(state, now))}
+                    </span>
+                    <button
+                        onClick={onTogglePause}
+                        className="p-0.5 rounded hover:bg-slate-700 hover:text-white transition-colors"
+                        title={state.paused ? 'Resume auto-refresh' : 'Pause auto-refresh'}
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-2.5 w-2.5" viewBox="0 0 20 20" fill="currentColor">
+                            {state.paused
+                                ? <path d="M6.3 2.84A1.5 1.5 0 004 4.11v11.78a1.5 1.5 0 002.3 1.27l9.34-5.89a1.5 1.5 0 000-2.54L6.3 2.84z" />
+                                : <path d="M5.75 3a.75.75 0 00-.75.75v12.5c0 .414.336.75.75.75h1.5a.75.75 0 00.75-.75V3.75A.75.75 0 007.25 3h-1.5zM12.75 3a.75.75 0 00-.75.75v12.5c0 .414.336.75.75.75h1.5a.75.75 0 00.75-.75V3.75a.75.75 0 00-.75-.75h-1.5z" />
+                            }
+                        </svg>
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AutoRefreshControl;
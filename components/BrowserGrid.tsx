@@ -1,156 +1,748 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useReducer, useRef, useImperativeHandle } from 'react';
+import ResizableGrid from './ResizableGrid';
+import FrameViewport from './FrameViewport';
+import UrlMatrixPanel from './UrlMatrixPanel';
+import FrameStatusCard from './FrameStatusCard';
+import FramePolicyEditor from './FramePolicyEditor';
+import LocalSourcePanel from './LocalSourcePanel';
+import QaReviewPanel from './QaReviewPanel';
+import UptimePanel from './UptimePanel';
+import ProbeSparkline from './ProbeSparkline';
+import AutoRefreshControl from './AutoRefreshControl';
+import UrlInput from './UrlInput';
+import CompareView from './CompareView';
+import { useOffscreenFrames } from '../hooks/useOffscreenFrames';
+import { useFrameMirror } from '../hooks/useFrameMirror';
+import { useUptimeProbes, ProbeTarget } from '../hooks/useUptimeProbes';
+import { FrameData, GridSettings } from '../types';
+import { createGridState, gridReducer, getUndoLabel, getRedoLabel } from '../utils/gridStore';
+import { LayoutPreset } from '../utils/gridLayout';
+import {
+    DeviceProfileId,
+    DEVICE_PROFILES,
+    MIN_VIEWPORT,
+    MAX_VIEWPORT,
+    isFillDevice,
+    isWideViewport,
+    formatViewport,
+    getDeviceProfile,
+} from '../utils/devices';
+import { GridViewState } from '../utils/workspaces';
+import { MatrixEntry } from '../utils/urlMatrix';
+import {
+    LOAD_TIMEOUT_OPTIONS,
+    LOADING_DELAY_OPTIONS,
+    MAX_CONCURRENT_OPTIONS,
+    isFrameMounted,
+    isFrameFailed,
+    formatLoadTime,
+    detectBlockedFrame,
+} from '../utils/frameLoad';
+import { checkUrl, normalizeUrl } from '../utils/url';
+import { addRecentUrl } from '../utils/recentUrls';
+import { CompareState, createCompare } from '../utils/compare';
+import {
+    FramePolicy,
+    getSandboxAttribute,
+    getAllowAttribute,
+    getPolicyRestrictions,
+    getPolicyLabel,
+} from '../utils/framePolicy';
+import { ActivityInput, recordActivity } from '../utils/activityLog';
+import { PaletteCommand } from '../utils/commands';
+import { LocalSource, readDroppedSource, revokeLocalSource } from '../utils/localPreview';
+import { RemoteFrameInfo, RemoteFrameEvent } from '../utils/remoteControl';
+import {
+    FrameReview,
+    getVerdictLabel,
+    formatChecklistProgress,
+    buildQaReport,
+    toMarkdownReport,
+    toJsonReport,
+} from '../utils/qaReview';
+import { downloadFile, toFileSlug } from '../utils/download';
+import {
+    ProbeSettings,
+    ProbeAlertMode,
+    FrameProbeState,
+    PROBE_ALERT_MODES,
+    checkProbeUrl,
+    getHealthLabel,
+    formatProbeDetails,
+    formatProbeInterval,
+    requestNotificationPermission,
+    showProbeNotification,
+    playProbeTone,
+} from '../utils/uptime';
+
+// Imperative API used by the remote control and the command palette; frames are addressed
+// by tile number (#1 = first tile). Methods return an error message, or null on success.
+export interface BrowserGridHandle {
+    setFrameUrl: (frame: number, url: string) => string | null;
+    setFrameLocked: (frame: number, locked: boolean) => string | null;
+    refreshFrame: (frame: number) => string | null;
+    refreshAll: () => void;
+    getFrames: () => RemoteFrameInfo[];
+    // Number-key selection; selecting the selected tile again clears it
+    selectTile: (frame: number) => void;
+    getCommands: () => PaletteCommand[];
+}
 
 interface BrowserGridProps {
     url: string;
     count: number;
+    layout: LayoutPreset;
+    // Restored state (e.g. from a saved workspace); only read on mount
+    initialState?: GridViewState | null;
+    onStateChange?: (state: GridViewState) => void;
+    // Frames finishing a load, timing out or getting blocked
+    onFrameEvent?: (event: RemoteFrameEvent) => void;
+    // Undo and redo can change the layout, which App owns
+    onLayoutChange?: (layout: LayoutPreset) => void;
+    ref?: React.Ref<BrowserGridHandle>;
 }
 
-interface FrameData {
-    id: number;
-    currentUrl: string;
-    key: number;
-    isLocked: boolean;
-    status: 'idle' | 'scheduled' | 'active';
-    sessionId: string; // Unique ID for this frame's "user"
-}
+// Activity log entries for what changed between two versions of the same frame
+const getFrameActivity = (prev: FrameData, next: FrameData): Omit<ActivityInput, 'frameId' | 'tile'>[] => {
+    const changes: Omit<ActivityInput, 'frameId' | 'tile'>[] = [];
+    if (prev.localSource !== next.localSource) {
+        changes.push({ type: 'preview', message: next.localSource ? `Previewing ${next.localSource.name}` : 'Closed local preview' });
+    }
+    if (prev.currentUrl !== next.currentUrl) {
+        changes.push({ type: 'navigate', message: next.currentUrl ? `URL set to ${next.currentUrl}` : 'URL cleared' });
+    }
+    if (prev.isLocked !== next.isLocked) {
+        changes.push({ type: 'lock', message: next.isLocked ? 'Locked' : 'Unlocked' });
+    }
+    if (prev.status !== next.status || prev.key !== next.key) {
+        const isReload = isFrameMounted(prev.status) && prev.currentUrl === next.currentUrl && prev.localSource === next.localSource;
+        switch (next.status) {
+            case 'scheduled':
+                changes.push({
+                    type: 'schedule',
+                    message: prev.status === 'suspended' ? 'Back in view, queued for load'
+                        : isReload && prev.autoRefresh.dueAt !== next.autoRefresh.dueAt ? 'Auto-refresh queued'
+                        : isReload ? 'Reload queued' : 'Queued for load',
+                });
+                break;
+            case 'loading':
+                changes.push({ type: 'schedule', message: 'Load started' });
+                break;
+            case 'loaded':
+                changes.push({
+                    type: 'load',
+                    message: next.loadTimeMs === null ? 'Loaded' : `Loaded in ${formatLoadTime(next.loadTimeMs)}`,
+                    loadTimeMs: next.loadTimeMs,
+                });
+                break;
+            case 'timeout':
+            case 'blocked':
+                changes.push({ type: 'error', message: `${next.status === 'timeout' ? 'Timed out' : 'Blocked'}: ${next.statusDetail}` });
+                break;
+            case 'suspended':
+                changes.push({ type: 'suspend', message: 'Suspended offscreen' });
+                break;
+            case 'idle':
+                if (prev.status !== 'idle') changes.push({ type: 'schedule', message: 'Idle, nothing to load' });
+                break;
+        }
+    }
+    // Custom sizes change on every keystroke, so only profile and orientation switches are logged
+    if (prev.device.profileId !== next.device.profileId || prev.device.landscape !== next.device.landscape) {
+        const viewport = isFillDevice(next.device) ? '' : ` (${formatViewport(next.device)})`;
+        changes.push({ type: 'frame', message: `Device set to ${getDeviceProfile(next.device.profileId).label}${viewport}` });
+    }
+    if (prev.policy !== next.policy) {
+        changes.push({ type: 'frame', message: `Policy set to ${getPolicyLabel(next.policy)}` });
+    }
+    if (prev.autoRefresh.interval !== next.autoRefresh.interval) {
+        changes.push({ type: 'frame', message: next.autoRefresh.interval ? `Auto-refresh every ${next.autoRefresh.interval / 1000}s` : 'Auto-refresh off' });
+    }
+    if (prev.autoRefresh.paused !== next.autoRefresh.paused) {
+        changes.push({ type: 'frame', message: next.autoRefresh.paused ? 'Auto-refresh paused' : 'Auto-refresh resumed' });
+    }
+    if (prev.review.verdict !== next.review.verdict) {
+        changes.push({ type: 'frame', message: `QA verdict set to ${getVerdictLabel(next.review.verdict)}` });
+    }
+    if (prev.probe.enabled !== next.probe.enabled) {
+        changes.push({ type: 'uptime', message: next.probe.enabled ? `Uptime probe on, every ${formatProbeInterval(next.probe.interval)}` : 'Uptime probe off' });
+    }
+    return changes;
+};
 
-const BrowserGrid: React.FC<BrowserGridProps> = ({ url: masterUrl, count }) => {
-    const [frames, setFrames] = useState<FrameData[]>([]);
-    const [scale, setScale] = useState(0.75); 
-    const [isSyncing, setIsSyncing] = useState(true);
-    
-    // "Ghost Mode" bundles multiple isolation features
-    const [ghostMode, setGhostMode] = useState(false); 
-    
-    const [loadingDelay, setLoadingDelay] = useState(800);
+const BrowserGrid: React.FC<BrowserGridProps> = ({ url: masterUrl, count, layout, initialState, onStateChange, onFrameEvent, onLayoutChange, ref }) => {
+    // Frames and grid settings live in the grid store; everything below is view state
+    const [state, dispatch] = useReducer(gridReducer, initialState, (initial: GridViewState | null | undefined) => createGridState(initial, layout));
+    const { frames, scale, isSyncing, ghostMode, loadingDelay, loadTimeout, maxConcurrent, suspendOffscreen, isMirroring, matrix, probeAlerts, autoRefreshPaused } = state;
+    const undoLabel = getUndoLabel(state);
+    const redoLabel = getRedoLabel(state);
+    const [showMatrix, setShowMatrix] = useState(false);
+    // Bumped to re-run the queue pump once the loading delay has passed
+    const [queueTick, setQueueTick] = useState(0);
+    const [isTabHidden, setIsTabHidden] = useState(() => document.hidden);
+    // Maximized tile (the rest collapse into a strip) and the tile being dragged to a new position
+    const [focusedId, setFocusedId] = useState<number | null>(null);
+    const [draggingId, setDraggingId] = useState<number | null>(null);
+    const [compare, setCompare] = useState<CompareState | null>(null);
+    const [editingPolicyId, setEditingPolicyId] = useState<number | null>(null);
+    const [reviewingId, setReviewingId] = useState<number | null>(null);
+    const [probePanelId, setProbePanelId] = useState<number | null>(null);
+    // Tile picked with the number keys, which frame shortcuts act on
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+    // Tile showing the local preview picker, with the error from a failed drop if any
+    const [localPanel, setLocalPanel] = useState<{ id: number; error: string | null } | null>(null);
+    // Files dragged in from the desktop (tiles need covering, as iframes swallow drag events)
+    const [isFileDragging, setIsFileDragging] = useState(false);
     
     // Refs
-    const timeoutsRef = useRef<Array<ReturnType<typeof setTimeout>>>([]);
+    const gridAreaRef = useRef<HTMLDivElement>(null);
+    const localSourcesRef = useRef(new Set<LocalSource>());
+    // Last load outcome reported per frame, as "key:status"
+    const reportedLoadsRef = useRef(new Map<number, string>());
+    // Frames and grid settings as last seen by the activity log (null until the first render is recorded)
+    const loggedFramesRef = useRef<FrameData[] | null>(null);
+    const loggedSettingsRef = useRef<Record<string, string> | null>(null);
+    const lastLoadStartRef = useRef(0);
+    // Load timeout timers, one per loading frame, tagged with the frame key they were armed for
+    const loadTimersRef = useRef(new Map<number, { key: number; timer: ReturnType<typeof setTimeout> }>());
 
-    // Generate a random session ID (pseudo-UUID)
-    const generateSessionId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+    const updateSettings = (settings: Partial<GridSettings>) => dispatch({ type: 'updateSettings', settings });
 
-    // Initialize frames
     useEffect(() => {
-        setFrames(Array(count).fill(null).map((_, i) => ({
-            id: i,
-            currentUrl: '',
-            key: 0,
-            isLocked: false,
-            status: 'idle',
-            sessionId: generateSessionId() // Assign distinct identity on creation
-        })));
-        return () => clearTimeouts();
+        dispatch({ type: 'setFrameCount', count, masterUrl });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [count]);
 
-    const clearTimeouts = () => {
-        timeoutsRef.current.forEach(t => clearTimeout(t));
-        timeoutsRef.current = [];
-    };
-
-    const scheduleFrames = (framesToSchedule: number[]) => {
-        clearTimeouts();
-        framesToSchedule.forEach((frameId, index) => {
-            const timeout = setTimeout(() => {
-                setFrames(prev => prev.map(f => {
-                    if (f.id === frameId) {
-                        return {
-                            ...f,
-                            status: 'active',
-                            key: f.key + 1
-                        };
-                    }
-                    return f;
-                }));
-            }, index * loadingDelay);
-            timeoutsRef.current.push(timeout);
-        });
+    // The layout prop and the store's layout follow each other: App changes it from the
+    // layout picker, undo and redo change it here
+    useEffect(() => {
+        dispatch({ type: 'setLayout', layout });
+    }, [layout]);
+
+    useEffect(() => {
+        if (state.layout !== layout) onLayoutChange?.(state.layout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [state.layout]);
+
+    const { offscreenIds, observeFrame } = useOffscreenFrames(gridAreaRef, suspendOffscreen);
+    // Locked frames are out of sync, so they neither lead nor follow the mirror
+    const { mirrorSupport, registerFrame } = useFrameMirror(isMirroring, id => frames.some(f => f.id === id && !f.isLocked));
+
+    const getProbeUnavailableReason = (frame: FrameData) => checkProbeUrl(frame.currentUrl, !!frame.localSource).reason ?? null;
+    const probeTargets = frames.flatMap((f): ProbeTarget[] => {
+        const check = checkProbeUrl(f.currentUrl, !!f.localSource);
+        return f.probe.enabled && check.ok ? [{ id: f.id, url: check.url, probe: f.probe }] : [];
+    });
+
+    const handleProbeHealthChange = (id: number, prev: FrameProbeState, next: FrameProbeState) => {
+        const index = frames.findIndex(f => f.id === id);
+        if (index === -1) return;
+        const message = `${getHealthLabel(prev.health)} → ${getHealthLabel(next.health)}: ${next.reason}`;
+        recordActivity({ type: 'uptime', frameId: id, tile: index + 1, message });
+        if (probeAlerts === 'notify' || probeAlerts === 'both') showProbeNotification(`Frame #${index + 1} is ${getHealthLabel(next.health).toLowerCase()}`, `${next.url}\n${next.reason}`);
+        if (probeAlerts === 'sound' || probeAlerts === 'both') playProbeTone(next.health);
     };
+    const { probes, probeNow } = useUptimeProbes(probeTargets, handleProbeHealthChange);
 
+    // Report persistable state to the owner (workspaces, session restore)
     useEffect(() => {
-        if (isSyncing && masterUrl) {
-            setFrames(prev => prev.map(f => {
-                if (f.isLocked) return f;
-                return { ...f, currentUrl: masterUrl, status: 'scheduled' };
-            }));
-
-            const unlockedIds = frames.filter(f => !f.isLocked).map(f => f.id);
-            scheduleFrames(unlockedIds);
-        } else if (!masterUrl) {
-             setFrames(prev => prev.map(f => f.isLocked ? f : { ...f, currentUrl: '', status: 'idle' }));
-        }
+        onStateChange?.({
+            scale,
+            isSyncing,
+            loadingDelay,
+            loadTimeout,
+            maxConcurrent,
+            suspendOffscreen,
+            isMirroring,
+            matrix,
+            probeAlerts,
+            frames: frames.map(f => ({
+                currentUrl: f.currentUrl,
+                isLocked: f.isLocked,
+                device: f.device,
+                label: f.label,
+                refreshInterval: f.autoRefresh.interval,
+                refreshPaused: f.autoRefresh.paused,
+                policy: f.policy,
+                review: f.review,
+                probe: f.probe
+            }))
+        });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [masterUrl, isSyncing, loadingDelay]); 
+    }, [frames, scale, isSyncing, loadingDelay, loadTimeout, maxConcurrent, suspendOffscreen, isMirroring, matrix, probeAlerts]);
 
-    // Handle Ghost Mode Toggling
+    // Arm a timeout for every loading frame; disarm once it settles, reloads or is removed
     useEffect(() => {
-        if (ghostMode) {
-            // When Ghost Mode activates, regenerate all session IDs to ensure freshness
-            setFrames(prev => prev.map(f => ({ ...f, sessionId: generateSessionId(), key: f.key + 1 })));
-        }
-    }, [ghostMode]);
+        const timers = loadTimersRef.current;
+        timers.forEach((armed, id) => {
+            const frame = frames.find(f => f.id === id);
+            if (!frame || frame.status !== 'loading' || frame.key !== armed.key) {
+                clearTimeout(armed.timer);
+                timers.delete(id);
+            }
+        });
+        frames.forEach(f => {
+            if (f.status !== 'loading' || timers.has(f.id)) return;
+            const timer = setTimeout(() => {
+                timers.delete(f.id);
+                dispatch({ type: 'loadTimedOut', id: f.id, key: f.key });
+            }, loadTimeout);
+            timers.set(f.id, { key: f.key, timer });
+        });
+    }, [frames, loadTimeout]);
+
+    useEffect(() => () => loadTimersRef.current.forEach(armed => clearTimeout(armed.timer)), []);
 
-    const getDisplayUrl = (urlStr: string, sessionId: string) => {
-        if (!urlStr) return '';
-        let final = urlStr.trim();
-        if (!final.startsWith('http://') && !final.startsWith('https://')) {
-            final = `https://${final}`;
+    // Load queue pump: start the oldest queued frame whenever a slot is free
+    // (a load finished or timed out) and the loading delay since the last start has passed.
+    // Offscreen frames wait until they scroll into view.
+    const queuedFrames = frames
+        .filter(f => f.status === 'scheduled' && !offscreenIds.has(f.id))
+        .sort((a, b) => (a.queuedAt ?? 0) - (b.queuedAt ?? 0));
+    const loadingCount = frames.filter(f => f.status === 'loading').length;
+
+    useEffect(() => {
+        const next = queuedFrames[0];
+        if (!next || (maxConcurrent > 0 && loadingCount >= maxConcurrent)) return;
+
+        const wait = lastLoadStartRef.current + loadingDelay - performance.now();
+        if (wait > 0) {
+            const timer = setTimeout(() => setQueueTick(t => t + 1), wait);
+            return () => clearTimeout(timer);
         }
+
+        lastLoadStartRef.current = performance.now();
+        dispatch({ type: 'startLoad', id: next.id, now: lastLoadStartRef.current, wallNow: Date.now() });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [frames, offscreenIds, maxConcurrent, loadingDelay, queueTick]);
+
+    // Offscreen suspension: unload frames scrolled out of view, requeue them when they return
+    useEffect(() => {
+        dispatch({ type: 'syncOffscreen', offscreenIds: [...offscreenIds] });
+    }, [offscreenIds, suspendOffscreen]);
+
+    useEffect(() => {
+        const handleVisibility = () => setIsTabHidden(document.hidden);
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => document.removeEventListener('visibilitychange', handleVisibility);
+    }, []);
+
+    // Auto-refresh ticker. It only runs while some countdown is live and the tab is visible;
+    // deadlines that passed while hidden fire on the first tick after the tab returns. Ticks
+    // with nothing due leave the state as is, so the grid only re-renders when a frame refreshes
+    // (each tile's countdown keeps its own clock).
+    const hasLiveTimers = frames.some(f => f.autoRefresh.dueAt !== null);
+    useEffect(() => {
+        if (!hasLiveTimers || isTabHidden) return;
+
+        const tick = () => dispatch({ type: 'autoRefreshTick', wallNow: Date.now() });
+
+        tick();
+        const interval = setInterval(tick, 1000);
+        return () => clearInterval(interval);
+    }, [hasLiveTimers, isTabHidden]);
+
+    const handleRefreshInterval = (id: number, interval: number) => {
+        dispatch({ type: 'setRefreshInterval', id, interval, wallNow: Date.now() });
+    };
+
+    const toggleFrameAutoRefresh = (id: number) => {
+        dispatch({ type: 'toggleFrameAutoRefresh', id, wallNow: Date.now() });
+    };
+
+    const toggleGridAutoRefresh = () => {
+        dispatch({ type: 'toggleGridAutoRefresh', wallNow: Date.now() });
+    };
+
+    useEffect(() => {
+        dispatch({ type: 'syncUrl', url: masterUrl });
+    }, [masterUrl, isSyncing]);
+
+    const getDisplayUrl = (frame: FrameData) => {
+        if (frame.localSource) return '';
+        let final = normalizeUrl(frame.currentUrl);
+        if (!final) return '';
         
         // If Ghost Mode is active, we append unique signatures
         if (ghostMode) {
             const separator = final.includes('?') ? '&' : '?';
             // _uid: Represents the "User ID" for this frame
-            // _cb: Cache buster timestamp for this specific request
-            final = `${final}${separator}_uid=${sessionId}&_cb=${Date.now()}`;
+            // _cb: Cache buster for this specific load (stable across re-renders, so the iframe isn't re-navigated)
+            final = `${final}${separator}_uid=${frame.sessionId}&_cb=${frame.loadId}`;
         }
 
         return final;
     };
 
     const handleRefresh = (id: number) => {
-        setFrames(prev => prev.map(f => f.id === id ? { ...f, key: f.key + 1 } : f));
+        dispatch({ type: 'refresh', id });
+    };
+
+    // Late loads (after a timeout) still count; in-frame navigations after that are ignored
+    const handleFrameLoad = (id: number, key: number, iframe: HTMLIFrameElement) => {
+        // srcdoc documents are ours, so an empty one is just empty markup
+        const blockedReason = iframe.srcdoc ? null : detectBlockedFrame(iframe);
+        dispatch({ type: 'frameLoaded', id, key, blockedReason, now: performance.now() });
     };
 
     const handleRefreshAll = () => {
-        const framesToRefresh = frames.filter(f => f.currentUrl && (!f.isLocked || f.status !== 'idle')).map(f => f.id);
-        
-        // In Ghost Mode, refresh means "New Session", so regenerate IDs
-        if (ghostMode) {
-             setFrames(prev => prev.map(f => ({...f, sessionId: generateSessionId()})));
+        dispatch({ type: 'refreshAll' });
+    };
+
+    const handleUrlCommit = (id: number, url: string) => {
+        addRecentUrl(url);
+        dispatch({ type: 'navigate', id, url });
+    };
+
+    const handleHistory = (id: number, delta: -1 | 1) => {
+        dispatch({ type: 'stepHistory', id, delta });
+    };
+
+    const toggleLock = (id: number) => {
+        dispatch({ type: 'toggleLock', id });
+    };
+
+    const handleDeviceChange = (id: number, profileId: DeviceProfileId) => {
+        dispatch({ type: 'setDeviceProfile', id, profileId });
+    };
+
+    const toggleOrientation = (id: number) => {
+        dispatch({ type: 'toggleOrientation', id });
+    };
+
+    const handleCustomSize = (id: number, dimension: 'width' | 'height', value: number, commit = false) => {
+        dispatch({ type: 'setCustomSize', id, dimension, value, commit });
+    };
+
+    const applyMatrix = (entries: MatrixEntry[]) => {
+        dispatch({ type: 'applyMatrix', entries });
+    };
+
+    const spreadDevices = () => {
+        dispatch({ type: 'spreadDevices' });
+    };
+
+    // Compare closes by itself once either of its frames is removed
+    const compareLeft = compare ? frames.find(f => f.id === compare.leftId) : undefined;
+    const compareRight = compare ? frames.find(f => f.id === compare.rightId) : undefined;
+    const isComparing = !!(compare && compareLeft && compareRight);
+
+    // A focused frame that was removed (count lowered) simply drops focus
+    const focusedFrame = frames.find(f => f.id === focusedId) ?? null;
+
+    const toggleFocus = (id: number) => {
+        setFocusedId(prev => prev === id ? null : id);
+    };
+
+    // Escape restores the grid, unless it was meant for an input (e.g. reverting a URL draft)
+    // or for the compare view in place of the grid
+    useEffect(() => {
+        if (!focusedFrame || isComparing) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (e.key !== 'Escape' || target?.closest('input, select, textarea')) return;
+            setFocusedId(null);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [focusedFrame, isComparing]);
+
+    const moveFrame = (id: number, to: number) => {
+        dispatch({ type: 'moveFrame', id, to });
+    };
+
+    // Keyboard alternative to dragging: swap a tile with its neighbour
+    const swapWithNeighbour = (id: number, delta: -1 | 1) => {
+        const index = frames.findIndex(f => f.id === id);
+        if (index === -1) return;
+        moveFrame(id, index + delta);
+    };
+
+    const handleLocalLoad = (id: number, source: LocalSource) => {
+        setLocalPanel(null);
+        dispatch({ type: 'setLocalSource', id, source });
+    };
+
+    const clearLocalSource = (id: number) => {
+        dispatch({ type: 'setLocalSource', id, source: null });
+    };
+
+    // Release blob URLs once no frame shows their source any more
+    useEffect(() => {
+        const inUse = new Set(frames.map(f => f.localSource).filter((s): s is LocalSource => !!s));
+        localSourcesRef.current.forEach(source => {
+            if (!inUse.has(source)) revokeLocalSource(source);
+        });
+        localSourcesRef.current = inUse;
+    }, [frames]);
+
+    useEffect(() => () => localSourcesRef.current.forEach(revokeLocalSource), []);
+
+    useEffect(() => {
+        let depth = 0;
+        const hasFiles = (e: DragEvent) => !!e.dataTransfer?.types.includes('Files');
+        const handleEnter = (e: DragEvent) => {
+            if (!hasFiles(e)) return;
+            depth++;
+            setIsFileDragging(true);
+        };
+        const handleLeave = (e: DragEvent) => {
+            if (!hasFiles(e)) return;
+            depth = Math.max(0, depth - 1);
+            if (!depth) setIsFileDragging(false);
+        };
+        const handleEnd = () => {
+            depth = 0;
+            setIsFileDragging(false);
+        };
+        window.addEventListener('dragenter', handleEnter);
+        window.addEventListener('dragleave', handleLeave);
+        window.addEventListener('drop', handleEnd);
+        window.addEventListener('dragend', handleEnd);
+        return () => {
+            window.removeEventListener('dragenter', handleEnter);
+            window.removeEventListener('dragleave', handleLeave);
+            window.removeEventListener('drop', handleEnd);
+            window.removeEventListener('dragend', handleEnd);
+        };
+    }, []);
+
+    // A tile drop either reorders tiles or opens dropped files as a local preview
+    const handleDrop = (e: React.DragEvent, frameId: number, targetIndex: number) => {
+        e.preventDefault();
+        if (draggingId !== null) {
+            moveFrame(draggingId, targetIndex);
+            setDraggingId(null);
+            return;
         }
+        if (!e.dataTransfer.types.includes('Files')) return;
+        readDroppedSource(e.dataTransfer)
+            .then(source => handleLocalLoad(frameId, source))
+            .catch(err => setLocalPanel({ id: frameId, error: err instanceof Error ? err.message : 'Could not read the dropped files' }));
+    };
 
-        setFrames(prev => prev.map(f => {
-            if (framesToRefresh.includes(f.id)) {
-                return { ...f, status: 'scheduled' };
-            }
-            return f;
-        }));
+    // Record every frame change to the activity log. The state on mount (restored or
+    // freshly created) is the baseline, not activity.
+    useEffect(() => {
+        const prev = loggedFramesRef.current;
+        loggedFramesRef.current = frames;
+        if (!prev) return;
+        const prevById = new Map<number, FrameData>(prev.map(f => [f.id, f]));
+        frames.forEach((f, index) => {
+            const before = prevById.get(f.id);
+            const changes = before ? getFrameActivity(before, f) : [{ type: 'grid' as const, message: 'Frame added' }];
+            changes.forEach(change => recordActivity({ ...change, frameId: f.id, tile: index + 1 }));
+        });
+        const nextIds = new Set(frames.map(f => f.id));
+        prev.forEach(f => {
+            if (!nextIds.has(f.id)) recordActivity({ type: 'grid', frameId: f.id, message: 'Frame removed' });
+        });
+        // Added and removed frames don't count as reordering
+        const order = (list: FrameData[]) => list.map(f => f.id).filter(id => prevById.has(id) && nextIds.has(id)).join();
+        if (order(prev) !== order(frames)) recordActivity({ type: 'grid', message: 'Tiles reordered' });
+    }, [frames]);
+
+    useEffect(() => {
+        const settings: Record<string, string> = {
+            'Sync URLs': isSyncing ? 'on' : 'off',
+            'Ghost Mode': ghostMode ? 'on' : 'off',
+            'Mirror': isMirroring ? 'on' : 'off',
+            'Suspend offscreen': suspendOffscreen ? 'on' : 'off',
+            'Auto-refresh': autoRefreshPaused ? 'paused' : 'running',
+            'Loading delay': `${loadingDelay / 1000}s`,
+            'Load timeout': `${loadTimeout / 1000}s`,
+            'Parallel loads': maxConcurrent === 0 ? 'unlimited' : String(maxConcurrent),
+            'Uptime alerts': probeAlerts,
+        };
+        const prev = loggedSettingsRef.current;
+        loggedSettingsRef.current = settings;
+        if (!prev) return;
+        Object.entries(settings).forEach(([name, value]) => {
+            if (prev[name] !== value) recordActivity({ type: 'grid', message: `${name}: ${value}` });
+        });
+    }, [isSyncing, ghostMode, isMirroring, suspendOffscreen, autoRefreshPaused, loadingDelay, loadTimeout, maxConcurrent, probeAlerts]);
+
+    // Report each load outcome once per load
+    useEffect(() => {
+        if (!onFrameEvent) return;
+        frames.forEach((f, index) => {
+            if (f.status !== 'loaded' && f.status !== 'timeout' && f.status !== 'blocked') return;
+            const outcome = `${f.key}:${f.status}`;
+            if (reportedLoadsRef.current.get(f.id) === outcome) return;
+            reportedLoadsRef.current.set(f.id, outcome);
+            const url = f.localSource?.name ?? f.currentUrl;
+            onFrameEvent(f.status === 'loaded'
+                ? { type: 'frameLoaded', frame: index + 1, url, loadTimeMs: f.loadTimeMs }
+                : { type: 'frameError', frame: index + 1, url, status: f.status, detail: f.statusDetail });
+        });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [frames]);
 
-        scheduleFrames(framesToRefresh);
+    // Resolve a tile number to a frame id, or an error message
+    const findTile = (frame: number) => {
+        const target = frames[frame - 1];
+        return target ? { id: target.id, error: null } : { id: -1, error: `There is no frame #${frame}` };
     };
 
-    const handleUrlChange = (id: number, newUrl: string) => {
-        setFrames(prev => prev.map(f => f.id === id ? { 
-            ...f, 
-            currentUrl: newUrl, 
-            isLocked: true,
-            status: 'active' 
-        } : f));
+    useImperativeHandle(ref, () => ({
+        setFrameUrl: (frame, url) => {
+            const { id, error } = findTile(frame);
+            if (error) return error;
+            const check = checkUrl(url);
+            if (!check.ok) return check.reason;
+            handleUrlCommit(id, check.url);
+            return null;
+        },
+        setFrameLocked: (frame, locked) => {
+            const { id, error } = findTile(frame);
+            if (error) return error;
+            dispatch({ type: 'setLocked', id, locked });
+            return null;
+        },
+        refreshFrame: (frame) => {
+            const { id, error } = findTile(frame);
+            if (error) return error;
+            handleRefresh(id);
+            return null;
+        },
+        refreshAll: handleRefreshAll,
+        getFrames: () => frames.map((f, index) => ({
+            frame: index + 1,
+            url: f.currentUrl,
+            name: f.localSource?.name ?? f.label,
+            status: f.status,
+            locked: f.isLocked,
+            loadTimeMs: f.loadTimeMs,
+        })),
+        selectTile: (frame) => {
+            const target = frames[frame - 1];
+            if (target) setSelectedId(prev => prev === target.id ? null : target.id);
+        },
+        getCommands,
+    }));
+
+    // Opens on the focused frame (if any) and its neighbour, otherwise the first two tiles
+    const toggleCompare = () => {
+        if (isComparing || frames.length < 2) {
+            setCompare(null);
+            return;
+        }
+        const start = Math.max(0, Math.min(frames.length - 2, frames.findIndex(f => f.id === focusedId)));
+        setCompare(createCompare(frames[start].id, frames[start + 1].id));
     };
 
-    const toggleLock = (id: number) => {
-        setFrames(prev => prev.map(f => f.id === id ? { ...f, isLocked: !f.isLocked } : f));
+    const getFrameTitle = (frame: FrameData) => {
+        const index = frames.indexOf(frame);
+        return `#${index + 1} ${frame.localSource?.name || frame.label || frame.currentUrl || 'Empty'}`;
     };
 
-    // Strict Sandbox Logic
-    const getSandboxRules = () => {
-        const base = "allow-scripts allow-forms allow-popups allow-modals allow-popups-to-escape-sandbox allow-downloads";
-        // In Ghost Mode, we strictly REMOVE 'allow-same-origin'
-        // This forces the browser to treat the content as opaque/unique origin, preventing cookie access.
-        return ghostMode ? base : `${base} allow-same-origin`;
+    const handlePolicyApply = (id: number, policy: FramePolicy) => {
+        setEditingPolicyId(null);
+        dispatch({ type: 'setPolicy', id, policy });
     };
 
+    const handleReviewChange = (id: number, review: FrameReview) => {
+        dispatch({ type: 'setReview', id, review });
+    };
+
+    const handleProbeChange = (id: number, probe: ProbeSettings) => {
+        dispatch({ type: 'setProbe', id, probe });
+    };
+
+    // Notifications need the browser's permission, asked for when they're first chosen
+    const handleProbeAlertsChange = (mode: ProbeAlertMode) => {
+        updateSettings({ probeAlerts: mode });
+        if (mode === 'notify' || mode === 'both') requestNotificationPermission();
+    };
+
+    const generateReport = (format: 'md' | 'json') => {
+        const report = buildQaReport(frames.map((f, index) => ({
+            frame: index + 1,
+            url: f.localSource?.name ?? f.currentUrl,
+            label: f.label,
+            device: f.device,
+            status: f.status,
+            loadTimeMs: f.loadTimeMs,
+            review: f.review,
+        })), masterUrl);
+        const filename = `omniview-qa-${toFileSlug(report.generatedAt)}.${format}`;
+        if (format === 'md') downloadFile(filename, toMarkdownReport(report), 'text/markdown');
+        else downloadFile(filename, toJsonReport(report));
+    };
+
+    const setAllLocked = (locked: boolean) => {
+        dispatch({ type: 'setAllLocked', locked });
+    };
+
+    const zoomBy = (delta: number) => {
+        updateSettings({ scale: Math.min(1, Math.max(0.25, Math.round((scale + delta) * 100) / 100)) });
+    };
+
+    // Everything the command palette offers for the grid and its frames. Commands with an
+    // `action` also run from keyboard shortcuts; the "selected" ones act on the number-key selection.
+    const getCommands = (): PaletteCommand[] => {
+        const selected = frames.find(f => f.id === selectedId);
+        const selectedTile = selected ? ` (#${frames.indexOf(selected) + 1})` : ' (none selected)';
+        const delayIndex = LOADING_DELAY_OPTIONS.findIndex(o => o.ms === loadingDelay);
+        const nextDelay = LOADING_DELAY_OPTIONS[(delayIndex + 1) % LOADING_DELAY_OPTIONS.length];
+
+        const gridCommands: PaletteCommand[] = [
+            { id: 'refresh-all', title: 'Refresh all frames', keywords: 'reload', action: 'refreshAll', run: handleRefreshAll },
+            { id: 'undo', title: undoLabel ? `Undo: ${undoLabel}` : 'Undo (nothing to undo)', action: 'undo', run: () => dispatch({ type: 'undo' }) },
+            { id: 'redo', title: redoLabel ? `Redo: ${redoLabel}` : 'Redo (nothing to redo)', action: 'redo', run: () => dispatch({ type: 'redo' }) },
+            { id: 'sync', title: isSyncing ? 'Turn Sync URLs off' : 'Turn Sync URLs on', action: 'toggleSync', run: () => updateSettings({ isSyncing: !isSyncing }) },
+            { id: 'mirror', title: isMirroring ? 'Turn Mirror off' : 'Turn Mirror on', keywords: 'scroll', action: 'toggleMirror', run: () => updateSettings({ isMirroring: !isMirroring }) },
+            { id: 'ghost', title: ghostMode ? 'Turn Ghost Mode off' : 'Turn Ghost Mode on', keywords: 'unique visitor', action: 'toggleGhostMode', run: () => dispatch({ type: 'setGhostMode', enabled: !ghostMode }) },
+            { id: 'suspend', title: suspendOffscreen ? 'Stop suspending offscreen frames' : 'Suspend offscreen frames', run: () => updateSettings({ suspendOffscreen: !suspendOffscreen }) },
+            { id: 'delay-next', title: `Next loading delay: ${nextDelay.label}`, action: 'cycleLoadingDelay', run: () => updateSettings({ loadingDelay: nextDelay.ms }) },
+            ...LOADING_DELAY_OPTIONS.map(o => ({ id: `delay-${o.ms}`, title: `Loading delay: ${o.label}`, run: () => updateSettings({ loadingDelay: o.ms }) })),
+            ...LOAD_TIMEOUT_OPTIONS.map(ms => ({ id: `timeout-${ms}`, title: `Load timeout: ${ms / 1000}s`, run: () => updateSettings({ loadTimeout: ms }) })),
+            ...MAX_CONCURRENT_OPTIONS.map(n => ({ id: `parallel-${n}`, title: `Parallel loads: ${n === 0 ? 'Unlimited' : n}`, run: () => updateSettings({ maxConcurrent: n }) })),
+            { id: 'zoom-in', title: `Zoom in (${Math.round(scale * 100)}%)`, action: 'zoomIn', run: () => zoomBy(0.05) },
+            { id: 'zoom-out', title: `Zoom out (${Math.round(scale * 100)}%)`, action: 'zoomOut', run: () => zoomBy(-0.05) },
+            { id: 'compare', title: isComparing ? 'Close compare view' : 'Compare frames', keywords: 'onion split diff', action: 'compare', run: toggleCompare },
+            { id: 'lock-all', title: 'Lock all frames', action: 'lockAll', run: () => setAllLocked(true) },
+            { id: 'unlock-all', title: 'Unlock all frames', action: 'unlockAll', run: () => setAllLocked(false) },
+            { id: 'spread-devices', title: 'Spread devices across frames', keywords: 'viewport responsive', run: spreadDevices },
+            { id: 'matrix', title: showMatrix ? 'Hide URL matrix' : 'Show URL matrix', run: () => setShowMatrix(!showMatrix) },
+            { id: 'report-md', title: 'Generate QA report (Markdown)', keywords: 'export', run: () => generateReport('md') },
+            { id: 'report-json', title: 'Generate QA report (JSON)', keywords: 'export', run: () => generateReport('json') },
+            { id: 'refresh-selected', title: `Refresh selected frame${selectedTile}`, action: 'refreshSelected', run: () => selected && handleRefresh(selected.id) },
+            { id: 'lock-selected', title: `${selected?.isLocked ? 'Unlock' : 'Lock'} selected frame${selectedTile}`, action: 'lockSelected', run: () => selected && toggleLock(selected.id) },
+            { id: 'focus-selected', title: `Maximize or restore selected frame${selectedTile}`, action: 'focusSelected', run: () => selected && toggleFocus(selected.id) },
+            { id: 'review-selected', title: `QA review of selected frame${selectedTile}`, action: 'reviewSelected', run: () => selected && setReviewingId(reviewingId === selected.id ? null : selected.id) },
+        ];
+        if (frames.some(f => f.autoRefresh.interval > 0)) {
+            gridCommands.push({ id: 'auto-refresh', title: autoRefreshPaused ? 'Resume auto-refresh' : 'Pause auto-refresh', run: toggleGridAutoRefresh });
+        }
+
+        const frameCommands = frames.flatMap((f, index): PaletteCommand[] => {
+            const tile = index + 1;
+            return [
+                { id: `frame-${f.id}-refresh`, title: `Refresh frame ${tile}`, keywords: 'reload', run: () => handleRefresh(f.id) },
+                { id: `frame-${f.id}-lock`, title: `${f.isLocked ? 'Unlock' : 'Lock'} frame ${tile}`, run: () => toggleLock(f.id) },
+                { id: `frame-${f.id}-focus`, title: focusedId === f.id ? `Restore grid from frame ${tile}` : `Focus frame ${tile}`, keywords: 'maximize', run: () => toggleFocus(f.id) },
+                { id: `frame-${f.id}-select`, title: `Select frame ${tile}`, run: () => setSelectedId(f.id) },
+                { id: `frame-${f.id}-review`, title: `QA review frame ${tile}`, keywords: 'verdict notes', run: () => setReviewingId(f.id) },
+                { id: `frame-${f.id}-probe`, title: `Uptime probe for frame ${tile}`, keywords: 'monitor status health', run: () => setProbePanelId(f.id) },
+                ...(probes[f.id] ? [{ id: `frame-${f.id}-probe-now`, title: `Check frame ${tile} now`, keywords: 'uptime probe', run: () => probeNow(f.id) }] : []),
+            ];
+        });
+
+        return [...gridCommands, ...frameCommands];
+    };
+
+    // In Ghost Mode the sandbox always drops 'allow-same-origin', which forces the
+    // browser to treat the content as an opaque, unique origin without cookie access.
+    // Local previews always lose it too: as srcdoc they'd otherwise run as OmniView itself.
+    const isOpaqueOrigin = (frame: FrameData) => ghostMode || !!frame.localSource;
+
+    const getFrameAttributes = (frame: FrameData) => ({
+        sandbox: getSandboxAttribute(frame.policy, isOpaqueOrigin(frame)),
+        allow: getAllowAttribute(frame.policy),
+        referrerPolicy: frame.policy.referrerPolicy,
+    });
+
     return (
         <div className="flex flex-col h-full bg-slate-900/50">
             {/* Toolbar */}
@@ -176,38 +768,147 @@ const BrowserGrid: React.FC<BrowserGridProps> = ({ url: masterUrl, count }) => {
                         <span>Refresh All</span>
                     </button>
 
+                    <div className="flex items-center space-x-1 bg-slate-800 rounded px-1.5 py-1.5 border border-slate-700">
+                        <button
+                            onClick={() => dispatch({ type: 'undo' })}
+                            disabled={!undoLabel}
+                            className="p-0.5 rounded text-slate-300 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                            title={undoLabel ? `Undo: ${undoLabel}` : 'Nothing to undo'}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                            </svg>
+                        </button>
+                        <button
+                            onClick={() => dispatch({ type: 'redo' })}
+                            disabled={!redoLabel}
+                            className="p-0.5 rounded text-slate-300 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                            title={redoLabel ? `Redo: ${redoLabel}` : 'Nothing to redo'}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+                            </svg>
+                        </button>
+                    </div>
+
                     <div className="flex items-center space-x-2 bg-slate-800 rounded px-3 py-1.5 border border-slate-700">
                         <input 
                             type="checkbox" 
                             id="syncToggle"
                             checked={isSyncing} 
-                            onChange={(e) => setIsSyncing(e.target.checked)}
+                            onChange={(e) => updateSettings({ isSyncing: e.target.checked })}
                             className="rounded border-slate-600 text-indigo-500 focus:ring-indigo-500 bg-slate-700 h-4 w-4"
                         />
                         <label htmlFor="syncToggle" className="text-sm text-slate-300 cursor-pointer select-none">Sync URLs</label>
                     </div>
 
-                    <div className="flex items-center space-x-2 bg-slate-800 rounded px-3 py-1.5 border border-slate-700" title="Delay between loading each browser">
+                    <div className="flex items-center space-x-2 bg-slate-800 rounded px-3 py-1.5 border border-slate-700" title="Mirror scrolling and in-page navigation across unlocked frames (same-origin pages, or pages running omniview-mirror.js)">
+                        <input 
+                            type="checkbox" 
+                            id="mirrorToggle"
+                            checked={isMirroring} 
+                            onChange={(e) => updateSettings({ isMirroring: e.target.checked })}
+                            className="rounded border-slate-600 text-indigo-500 focus:ring-indigo-500 bg-slate-700 h-4 w-4"
+                        />
+                        <label htmlFor="mirrorToggle" className="text-sm text-slate-300 cursor-pointer select-none">Mirror</label>
+                    </div>
+
+                    <div className="flex items-center space-x-2 bg-slate-800 rounded px-3 py-1.5 border border-slate-700" title="Minimum delay between starting each frame load">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                         </svg>
                         <select 
                             value={loadingDelay}
-                            onChange={(e) => setLoadingDelay(Number(e.target.value))}
+                            onChange={(e) => updateSettings({ loadingDelay: Number(e.target.value) })}
                             className="bg-transparent text-sm text-slate-300 border-none focus:ring-0 cursor-pointer py-0 pl-0 pr-6"
                         >
-                            <option value={200}>Fast (0.2s)</option>
-                            <option value={800}>Normal (0.8s)</option>
-                            <option value={2000}>Slow (2s)</option>
-                            <option value={5000}>Safe (5s)</option>
+                            {LOADING_DELAY_OPTIONS.map(o => (
+                                <option key={o.ms} value={o.ms}>{o.label}</option>
+                            ))}
                         </select>
                     </div>
 
+                    <div className="flex items-center space-x-2 bg-slate-800 rounded px-3 py-1.5 border border-slate-700" title="Mark a frame as timed out if it hasn't loaded by then">
+                        <span className="text-xs text-slate-400">Timeout:</span>
+                        <select 
+                            value={loadTimeout}
+                            onChange={(e) => updateSettings({ loadTimeout: Number(e.target.value) })}
+                            className="bg-transparent text-sm text-slate-300 border-none focus:ring-0 cursor-pointer py-0 pl-0 pr-6"
+                        >
+                            {LOAD_TIMEOUT_OPTIONS.map(ms => (
+                                <option key={ms} value={ms}>{ms / 1000}s</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="flex items-center space-x-2 bg-slate-800 rounded px-3 py-1.5 border border-slate-700" title="How many frames may load at the same time">
+                        <span className="text-xs text-slate-400">Parallel:</span>
+                        <select 
+                            value={maxConcurrent}
+                            onChange={(e) => updateSettings({ maxConcurrent: Number(e.target.value) })}
+                            className="bg-transparent text-sm text-slate-300 border-none focus:ring-0 cursor-pointer py-0 pl-0 pr-6"
+                        >
+                            {MAX_CONCURRENT_OPTIONS.map(n => (
+                                <option key={n} value={n}>{n === 0 ? 'Unlimited' : n}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="flex items-center space-x-2 bg-slate-800 rounded px-3 py-1.5 border border-slate-700" title="Unload frames scrolled out of view and reload them when they come back">
+                        <input 
+                            type="checkbox" 
+                            id="suspendToggle"
+                            checked={suspendOffscreen} 
+                            onChange={(e) => updateSettings({ suspendOffscreen: e.target.checked })}
+                            className="rounded border-slate-600 text-indigo-500 focus:ring-indigo-500 bg-slate-700 h-4 w-4"
+                        />
+                        <label htmlFor="suspendToggle" className="text-sm text-slate-300 cursor-pointer select-none">Suspend Offscreen</label>
+                    </div>
+
+                    {frames.some(f => f.probe.enabled) && (
+                        <div className="flex items-center space-x-2 bg-slate-800 rounded px-3 py-1.5 border border-slate-700" title="How uptime probes announce a frame going down or recovering">
+                            <span className="text-xs text-slate-400">Uptime alerts:</span>
+                            <select
+                                value={probeAlerts}
+                                onChange={(e) => handleProbeAlertsChange(e.target.value as ProbeAlertMode)}
+                                className="bg-transparent text-sm text-slate-300 border-none focus:ring-0 cursor-pointer py-0 pl-0 pr-6"
+                            >
+                                {PROBE_ALERT_MODES.map(m => (
+                                    <option key={m.id} value={m.id}>{m.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    {frames.some(f => f.autoRefresh.interval > 0) && (
+                        <button
+                            onClick={toggleGridAutoRefresh}
+                            className={`flex items-center space-x-1 px-3 py-1.5 border rounded text-sm transition-colors ${
+                                autoRefreshPaused ? 'bg-orange-500/10 border-orange-500/50 text-orange-300' : 'bg-slate-800 border-slate-700 text-slate-300 hover:border-slate-500'
+                            }`}
+                            title="Pause or resume every frame's auto-refresh"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                                {autoRefreshPaused
+                                    ? <path d="M6.3 2.84A1.5 1.5 0 004 4.11v11.78a1.5 1.5 0 002.3 1.27l9.34-5.89a1.5 1.5 0 000-2.54L6.3 2.84z" />
+                                    : <path d="M5.75 3a.75.75 0 00-.75.75v12.5c0 .414.336.75.75.75h1.5a.75.75 0 00.75-.75V3.75A.75.75 0 007.25 3h-1.5zM12.75 3a.75.75 0 00-.75.75v12.5c0 .414.336.75.75.75h1.5a.75.75 0 00.75-.75V3.75a.75.75 0 00-.75-.75h-1.5z" />
+                                }
+                            </svg>
+                            <span>{autoRefreshPaused ? 'Resume Auto-Refresh' : 'Pause Auto-Refresh'}</span>
+                        </button>
+                    )}
+
+                    <span className="text-xs font-mono text-slate-500" title="Frames waiting for a load slot / loading now">
+                        Queue: <span className={queuedFrames.length ? 'text-yellow-400' : ''}>{queuedFrames.length}</span>
+                        {' · '}
+                        Loading: <span className={loadingCount ? 'text-sky-400' : ''}>{loadingCount}</span>
+                    </span>
+
                     <div className="h-6 w-px bg-slate-700 mx-2 hidden sm:block"></div>
 
                     {/* Ghost Mode Toggle */}
                     <button 
-                        onClick={() => setGhostMode(!ghostMode)}
+                        onClick={() => dispatch({ type: 'setGhostMode', enabled: !ghostMode })}
                         className={`flex items-center space-x-2 px-3 py-1.5 rounded border transition-all duration-300 group ${
                             ghostMode 
                             ? 'bg-purple-900/40 border-purple-500 text-purple-200 shadow-[0_0_12px_rgba(168,85,247,0.3)]' 
@@ -227,7 +928,61 @@ const BrowserGrid: React.FC<BrowserGridProps> = ({ url: masterUrl, count }) => {
                          <span className="text-sm font-medium">Ghost Mode</span>
                     </button>
 
-                    <div className="flex items-center space-x-2 ml-auto bg-slate-800 p-1.5 rounded border border-slate-700">
+                    <button
+                        onClick={spreadDevices}
+                        className="flex items-center space-x-1 px-3 py-1.5 bg-slate-800 border border-slate-700 text-slate-300 rounded text-sm hover:border-slate-500 transition-colors"
+                        title="Assign a different device profile to each unlocked frame"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                        </svg>
+                        <span>Spread Devices</span>
+                    </button>
+
+                    <button
+                        onClick={() => setShowMatrix(!showMatrix)}
+                        className={`flex items-center space-x-1 px-3 py-1.5 border rounded text-sm transition-colors ${
+                            showMatrix ? 'bg-indigo-600/20 border-indigo-500 text-indigo-200' : 'bg-slate-800 border-slate-700 text-slate-300 hover:border-slate-500'
+                        }`}
+                        title="Give each frame its own URL from a template or list"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM14 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zM14 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z" />
+                        </svg>
+                        <span>URL Matrix</span>
+                    </button>
+
+                    <button
+                        onClick={toggleCompare}
+                        disabled={frames.length < 2}
+                        className={`flex items-center space-x-1 px-3 py-1.5 border rounded text-sm transition-colors disabled:opacity-40 ${
+                            isComparing ? 'bg-indigo-600/20 border-indigo-500 text-indigo-200' : 'bg-slate-800 border-slate-700 text-slate-300 hover:border-slate-500'
+                        }`}
+                        title="Compare two frames side by side, as an onion skin or with a split slider"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                        </svg>
+                        <span>Compare</span>
+                    </button>
+
+                    <div className="flex items-center space-x-1 bg-slate-800 rounded px-3 py-1.5 border border-slate-700" title="Generate a QA report of every frame's verdict, notes, checklist, device and load time">
+                        <span className="text-xs text-slate-400 mr-1">Report:</span>
+                        <button
+                            onClick={() => generateReport('md')}
+                            className="px-1.5 rounded text-sm text-slate-300 hover:text-white hover:bg-slate-700 transition-colors"
+                        >
+                            Markdown
+                        </button>
+                        <button
+                            onClick={() => generateReport('json')}
+                            className="px-1.5 rounded text-sm text-slate-300 hover:text-white hover:bg-slate-700 transition-colors"
+                        >
+                            JSON
+                        </button>
+                    </div>
+
+                    <div className="flex items-center space-x-2 ml-auto bg-slate-800 p-1.5 rounded border border-slate-700" title="Zoom for frames filling their tile">
                         <span className="text-xs text-slate-400 pl-1">Zoom:</span>
                         <input 
                             type="range" 
@@ -235,13 +990,22 @@ const BrowserGrid: React.FC<BrowserGridProps> = ({ url: masterUrl, count }) => {
                             max="1" 
                             step="0.05" 
                             value={scale} 
-                            onChange={(e) => setScale(parseFloat(e.target.value))}
+                            onChange={(e) => updateSettings({ scale: parseFloat(e.target.value) })}
                             className="w-24 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
                         />
                         <span className="text-xs w-8 text-right font-mono text-slate-400">{Math.round(scale * 100)}%</span>
                     </div>
                 </div>
                 
+                {showMatrix && (
+                    <UrlMatrixPanel
+                        matrix={matrix}
+                        onChange={(next) => updateSettings({ matrix: next })}
+                        availableFrames={frames.filter(f => !f.isLocked).length}
+                        onApply={applyMatrix}
+                    />
+                )}
+
                 {/* Ghost Mode Explainer Banner */}
                 {ghostMode && (
                     <div className="bg-purple-900/20 border-t border-purple-900/50 py-1 px-4 flex justify-center items-center space-x-3 text-xs text-purple-200">
@@ -255,46 +1019,145 @@ const BrowserGrid: React.FC<BrowserGridProps> = ({ url: masterUrl, count }) => {
                 )}
             </div>
 
-            {/* Grid Area */}
-            <div className="flex-1 overflow-y-auto p-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-                    {frames.map((frame) => (
+            {/* Grid Area (hidden, not unmounted, while comparing so its frames keep running) */}
+            <div ref={gridAreaRef} className={`flex-1 overflow-y-auto p-4 ${isComparing ? 'hidden' : ''}`}>
+                <ResizableGrid layout={layout} focusedKey={focusedFrame ? String(focusedFrame.id) : null}>
+                    {frames.map((frame, index) => (
                         <div 
                             key={frame.id} 
+                            ref={observeFrame(frame.id)}
+                            data-frame-id={frame.id}
+                            onDragOver={(e) => {
+                                if (draggingId === null && !e.dataTransfer.types.includes('Files')) return;
+                                e.preventDefault();
+                                e.dataTransfer.dropEffect = draggingId === null ? 'copy' : 'move';
+                            }}
+                            onDrop={(e) => handleDrop(e, frame.id, index)}
                             className={`
-                                flex flex-col bg-slate-800 rounded-lg overflow-hidden border shadow-lg transition-all duration-300
+                                flex flex-col h-full bg-slate-800 rounded-lg overflow-hidden border shadow-lg transition-all duration-300
+                                ${draggingId === frame.id ? 'opacity-40' : ''}
+                                ${selectedId === frame.id ? 'ring-2 ring-indigo-400/70' : ''}
                                 ${frame.isLocked ? 'border-orange-500/50 shadow-orange-500/10' : 
                                   ghostMode ? 'border-purple-800/30 hover:border-purple-500/50' : 'border-slate-700 hover:border-sky-500/50'}
                             `}
-                            style={{ height: '340px' }}
                         >
                             {/* Frame Header */}
-                            <div className="flex items-center p-2 bg-slate-900 border-b border-slate-700 space-x-2">
+                            <div
+                                className="flex items-center p-2 bg-slate-900 border-b border-slate-700 space-x-2"
+                                onDoubleClick={(e) => {
+                                    if ((e.target as HTMLElement).closest('input, button, select')) return;
+                                    toggleFocus(frame.id);
+                                }}
+                            >
+                                <button
+                                    draggable
+                                    onDragStart={(e) => {
+                                        e.dataTransfer.effectAllowed = 'move';
+                                        e.dataTransfer.setData('text/plain', String(frame.id));
+                                        setDraggingId(frame.id);
+                                    }}
+                                    onDragEnd={() => setDraggingId(null)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'ArrowLeft' || e.key === 'ArrowUp') swapWithNeighbour(frame.id, -1);
+                                        else if (e.key === 'ArrowRight' || e.key === 'ArrowDown') swapWithNeighbour(frame.id, 1);
+                                        else return;
+                                        e.preventDefault();
+                                    }}
+                                    className="-ml-1 p-0.5 rounded text-slate-600 hover:text-slate-300 hover:bg-slate-700 cursor-grab active:cursor-grabbing focus:outline-none focus:ring-1 focus:ring-indigo-500/50 transition-colors"
+                                    title="Drag to reorder (arrow keys swap with neighbour)"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
+                                        <path d="M7 4a1 1 0 11-2 0 1 1 0 012 0zM7 10a1 1 0 11-2 0 1 1 0 012 0zM7 16a1 1 0 11-2 0 1 1 0 012 0zM15 4a1 1 0 11-2 0 1 1 0 012 0zM15 10a1 1 0 11-2 0 1 1 0 012 0zM15 16a1 1 0 11-2 0 1 1 0 012 0z" />
+                                    </svg>
+                                </button>
+
                                 <div className="flex items-center space-x-1.5 mr-1">
                                     <div className={`w-2 h-2 rounded-full transition-colors duration-500 ${
                                         frame.isLocked ? 'bg-orange-500' : 
-                                        frame.status === 'active' ? (ghostMode ? 'bg-purple-400 shadow-[0_0_8px_rgba(192,132,252,0.4)]' : 'bg-emerald-500') : 
+                                        frame.status === 'loaded' ? (ghostMode ? 'bg-purple-400 shadow-[0_0_8px_rgba(192,132,252,0.4)]' : 'bg-emerald-500') : 
+                                        frame.status === 'loading' ? 'bg-sky-400 animate-pulse' :
                                         frame.status === 'scheduled' ? 'bg-yellow-500 animate-pulse' :
+                                        frame.status === 'timeout' ? 'bg-orange-400' :
+                                        frame.status === 'blocked' ? 'bg-red-500' :
                                         'bg-slate-600'
                                     }`}></div>
                                 </div>
                                 
-                                <span className="text-[10px] font-mono text-slate-500 select-none">#{frame.id + 1}</span>
-
-                                <input 
-                                    type="text" 
-                                    value={frame.currentUrl}
-                                    onChange={(e) => handleUrlChange(frame.id, e.target.value)}
-                                    className={`
-                                        flex-1 bg-slate-800 border text-xs rounded px-2 py-1 focus:outline-none focus:ring-1 transition-colors truncate font-mono
-                                        ${frame.isLocked 
-                                            ? 'border-orange-500/30 text-orange-200 focus:border-orange-500 focus:ring-orange-500/20' 
-                                            : ghostMode
-                                                ? 'border-slate-700 text-purple-200 focus:border-purple-500 focus:ring-purple-500/20 placeholder-purple-800'
-                                                : 'border-slate-700 text-slate-300 focus:border-indigo-500 focus:ring-indigo-500/20'}
-                                    `}
-                                    placeholder="Enter URL..."
-                                />
+                                <span className="text-[10px] font-mono text-slate-500 select-none">#{index + 1}</span>
+
+                                {frame.probe.enabled && (
+                                    <button
+                                        onClick={() => setProbePanelId(probePanelId === frame.id ? null : frame.id)}
+                                        className="flex items-center space-x-1 px-1 rounded hover:bg-slate-700 transition-colors"
+                                        title={probes[frame.id] ? formatProbeDetails(probes[frame.id]) : getProbeUnavailableReason(frame) ?? 'Not checked yet'}
+                                    >
+                                        <span className={`text-[9px] font-mono font-semibold uppercase ${
+                                            probes[frame.id]?.health === 'up' ? 'text-emerald-400' :
+                                            probes[frame.id]?.health === 'degraded' ? 'text-amber-300' :
+                                            probes[frame.id]?.health === 'down' ? 'text-red-400' :
+                                            'text-slate-500'
+                                        }`}>
+                                            {probes[frame.id]?.result ? probes[frame.id].result.status ?? 'down' : '···'}
+                                        </span>
+                                        {probes[frame.id]?.samples.length > 0 && <ProbeSparkline samples={probes[frame.id].samples} />}
+                                    </button>
+                                )}
+
+                                <div className="flex items-center -mx-0.5">
+                                    <button
+                                        onClick={() => handleHistory(frame.id, -1)}
+                                        disabled={frame.historyIndex <= 0}
+                                        className="p-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-25 disabled:hover:bg-transparent transition-colors"
+                                        title={frame.historyIndex > 0 ? `Back to ${frame.history[frame.historyIndex - 1]}` : 'Back'}
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
+                                            <path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" />
+                                        </svg>
+                                    </button>
+                                    <button
+                                        onClick={() => handleHistory(frame.id, 1)}
+                                        disabled={frame.historyIndex >= frame.history.length - 1}
+                                        className="p-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-25 disabled:hover:bg-transparent transition-colors"
+                                        title={frame.historyIndex < frame.history.length - 1 ? `Forward to ${frame.history[frame.historyIndex + 1]}` : 'Forward'}
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
+                                            <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                                        </svg>
+                                    </button>
+                                </div>
+
+                                {frame.localSource ? (
+                                    <div
+                                        className="flex-1 min-w-0 flex items-center space-x-1.5 bg-slate-800 border border-orange-500/30 rounded px-2 py-1 text-xs font-mono text-orange-200"
+                                        title={frame.localSource.name}
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 flex-none text-orange-400/70" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                                        </svg>
+                                        <span className="flex-1 truncate">{frame.localSource.name}</span>
+                                        <button
+                                            onClick={() => clearLocalSource(frame.id)}
+                                            className="flex-none text-orange-300/60 hover:text-white"
+                                            title={frame.currentUrl ? `Close preview (back to ${frame.currentUrl})` : 'Close preview'}
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <UrlInput 
+                                        value={frame.currentUrl}
+                                        onCommit={(url) => handleUrlCommit(frame.id, url)}
+                                        className={`
+                                            flex-1 bg-slate-800 border text-xs rounded px-2 py-1 focus:outline-none focus:ring-1 transition-colors truncate font-mono
+                                            ${frame.isLocked 
+                                                ? 'border-orange-500/30 text-orange-200 focus:border-orange-500 focus:ring-orange-500/20' 
+                                                : ghostMode
+                                                    ? 'border-slate-700 text-purple-200 focus:border-purple-500 focus:ring-purple-500/20 placeholder-purple-800'
+                                                    : 'border-slate-700 text-slate-300 focus:border-indigo-500 focus:ring-indigo-500/20'}
+                                        `}
+                                        placeholder="Enter URL..."
+                                    />
+                                )}
 
                                 <button 
                                     onClick={() => toggleLock(frame.id)}
@@ -318,29 +1181,130 @@ const BrowserGrid: React.FC<BrowserGridProps> = ({ url: masterUrl, count }) => {
                                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
                                     </svg>
                                 </button>
+
+                                <button
+                                    onClick={() => toggleFocus(frame.id)}
+                                    className={`p-1.5 rounded transition-colors ${focusedId === frame.id ? 'bg-indigo-500/10 text-indigo-400 hover:bg-indigo-500/20' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                                    title={focusedId === frame.id ? 'Restore Grid (Esc)' : 'Maximize (double-click header)'}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        {focusedId === frame.id
+                                            ? <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 9V4m0 5H4m0 0l5-5m6 5V4m0 5h5m0 0l-5-5M9 15v5m0-5H4m0 0l5 5m6-5v5m0-5h5m0 0l-5 5" />
+                                            : <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4" />
+                                        }
+                                    </svg>
+                                </button>
+                            </div>
+
+                            {/* Device Bar */}
+                            <div className="flex items-center px-2 py-0.5 bg-slate-900 border-b border-slate-800 space-x-2 text-[10px] font-mono text-slate-500">
+                                <select
+                                    value={frame.device.profileId}
+                                    onChange={(e) => handleDeviceChange(frame.id, e.target.value as DeviceProfileId)}
+                                    className="bg-transparent text-slate-400 border-none focus:outline-none cursor-pointer py-0 pl-0 pr-1 text-[10px]"
+                                    title="Device viewport"
+                                >
+                                    {DEVICE_PROFILES.map(p => (
+                                        <option key={p.id} value={p.id}>{p.label}</option>
+                                    ))}
+                                </select>
+
+                                {isFillDevice(frame.device) ? (
+                                    <span className="opacity-60">responsive</span>
+                                ) : frame.device.profileId === 'custom' ? (
+                                    <span className="flex items-center space-x-0.5">
+                                        <input
+                                            type="number"
+                                            min={MIN_VIEWPORT}
+                                            max={MAX_VIEWPORT}
+                                            value={frame.device.width}
+                                            onChange={(e) => handleCustomSize(frame.id, 'width', Number(e.target.value))}
+                                            onBlur={(e) => handleCustomSize(frame.id, 'width', Number(e.target.value), true)}
+                                            className="w-11 bg-slate-800 border border-slate-700 rounded px-1 text-slate-300 focus:outline-none focus:border-indigo-500"
+                                        />
+                                        <span>×</span>
+                                        <input
+                                            type="number"
+                                            min={MIN_VIEWPORT}
+                                            max={MAX_VIEWPORT}
+                                            value={frame.device.height}
+                                            onChange={(e) => handleCustomSize(frame.id, 'height', Number(e.target.value))}
+                                            onBlur={(e) => handleCustomSize(frame.id, 'height', Number(e.target.value), true)}
+                                            className="w-11 bg-slate-800 border border-slate-700 rounded px-1 text-slate-300 focus:outline-none focus:border-indigo-500"
+                                        />
+                                    </span>
+                                ) : (
+                                    <span className="text-slate-400">{formatViewport(frame.device)}</span>
+                                )}
+
+                                {!isFillDevice(frame.device) && (
+                                    <button
+                                        onClick={() => toggleOrientation(frame.id)}
+                                        className="ml-auto p-0.5 rounded text-slate-500 hover:text-white hover:bg-slate-700 transition-colors"
+                                        title={isWideViewport(frame.device) ? 'Switch to Portrait' : 'Switch to Landscape'}
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className={`h-3 w-3 transition-transform ${isWideViewport(frame.device) ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                                        </svg>
+                                    </button>
+                                )}
+
+                                <button
+                                    onClick={() => setLocalPanel(localPanel?.id === frame.id ? null : { id: frame.id, error: null })}
+                                    className={`${isFillDevice(frame.device) ? 'ml-auto' : ''} p-0.5 rounded transition-colors ${
+                                        localPanel?.id === frame.id ? 'bg-indigo-500/20 text-indigo-300' : 'text-slate-500 hover:text-white hover:bg-slate-700'
+                                    }`}
+                                    title="Preview a local HTML file, folder or pasted HTML"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+                                    </svg>
+                                </button>
+
+                                <button
+                                    onClick={() => setProbePanelId(probePanelId === frame.id ? null : frame.id)}
+                                    className={`p-0.5 rounded transition-colors ${
+                                        probePanelId === frame.id ? 'bg-indigo-500/20 text-indigo-300'
+                                            : frame.probe.enabled ? 'text-teal-400 hover:text-white hover:bg-slate-700'
+                                            : 'text-slate-500 hover:text-white hover:bg-slate-700'
+                                    }`}
+                                    title={frame.probe.enabled ? `Uptime probe every ${formatProbeInterval(frame.probe.interval)}` : 'Uptime probe'}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12h4l3-8 4 16 3-8h4" />
+                                    </svg>
+                                </button>
+
+                                <button
+                                    onClick={() => setEditingPolicyId(editingPolicyId === frame.id ? null : frame.id)}
+                                    className={`flex items-center space-x-1 px-1 rounded transition-colors ${
+                                        editingPolicyId === frame.id ? 'bg-indigo-500/20 text-indigo-300' : 'text-slate-500 hover:text-white hover:bg-slate-700'
+                                    }`}
+                                    title={`Frame policy: ${getPolicyLabel(frame.policy)}\n${getPolicyRestrictions(frame.policy, isOpaqueOrigin(frame)).join('\n') || 'No restrictions'}`}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                                    </svg>
+                                    <span>{getPolicyLabel(frame.policy)} · {getPolicyRestrictions(frame.policy, isOpaqueOrigin(frame)).length}</span>
+                                </button>
                             </div>
 
                             {/* Iframe Container */}
                             <div className="flex-1 relative bg-white overflow-hidden group-hover:shadow-inner">
-                                {frame.currentUrl && frame.status === 'active' ? (
-                                    <div 
-                                        className="absolute top-0 left-0 origin-top-left transition-transform duration-200 ease-out"
-                                        style={{ 
-                                            width: `${100 / scale}%`, 
-                                            height: `${100 / scale}%`,
-                                            transform: `scale(${scale})`
-                                        }}
-                                    >
+                                {(frame.currentUrl || frame.localSource) && isFrameMounted(frame.status) ? (
+                                    <FrameViewport device={frame.device} scale={scale}>
                                         <iframe 
                                             key={`${frame.key}-${ghostMode ? 'gm' : 'std'}-${frame.sessionId}`}
-                                            src={getDisplayUrl(frame.currentUrl, frame.sessionId)}
+                                            src={frame.localSource ? undefined : getDisplayUrl(frame)}
+                                            srcDoc={frame.localSource?.html}
+                                            ref={registerFrame(frame.id)}
                                             title={`Browser ${frame.id}`}
                                             className="w-full h-full border-0"
-                                            sandbox={getSandboxRules()}
-                                            referrerPolicy="no-referrer"
+                                            {...getFrameAttributes(frame)}
                                             loading="eager" 
+                                            onLoad={(e) => handleFrameLoad(frame.id, frame.key, e.currentTarget)}
                                         />
-                                    </div>
+                                    </FrameViewport>
                                 ) : (
                                     <div className="w-full h-full flex flex-col items-center justify-center text-slate-400 p-4 bg-slate-50 transition-colors duration-300">
                                         {frame.status === 'scheduled' ? (
@@ -353,6 +1317,13 @@ const BrowserGrid: React.FC<BrowserGridProps> = ({ url: masterUrl, count }) => {
                                                     {ghostMode ? 'Creating Identity' : 'Waiting for slot'}
                                                  </span>
                                             </div>
+                                        ) : frame.status === 'suspended' ? (
+                                            <div className="flex flex-col items-center">
+                                                <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mb-2 opacity-30 text-slate-800" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                                </svg>
+                                                <span className="text-xs font-medium text-slate-500">Suspended Offscreen</span>
+                                            </div>
                                         ) : (
                                             <>
                                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mb-2 opacity-20 text-slate-800" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -363,15 +1334,118 @@ const BrowserGrid: React.FC<BrowserGridProps> = ({ url: masterUrl, count }) => {
                                         )}
                                     </div>
                                 )}
+
+                                {frame.status === 'loading' && (
+                                    <div className="absolute top-0 inset-x-0 h-0.5 overflow-hidden z-10 pointer-events-none">
+                                        <div className={`h-full w-1/3 animate-pulse ${ghostMode ? 'bg-purple-500' : 'bg-sky-500'}`}></div>
+                                    </div>
+                                )}
+
+                                {isFrameFailed(frame.status) && (
+                                    <FrameStatusCard
+                                        status={frame.status}
+                                        detail={frame.statusDetail}
+                                        url={getDisplayUrl(frame)}
+                                        restrictions={getPolicyRestrictions(frame.policy, isOpaqueOrigin(frame))}
+                                        onRetry={() => handleRefresh(frame.id)}
+                                    />
+                                )}
+
+                                {/* Iframes swallow drag events, so cover them while a tile or files are being dragged */}
+                                {(draggingId !== null || isFileDragging) && (
+                                    <div className={`absolute inset-0 z-20 flex items-center justify-center ${draggingId === frame.id ? '' : 'bg-indigo-500/10 border-2 border-dashed border-indigo-400/60'}`}>
+                                        {isFileDragging && (
+                                            <span className="px-2 py-1 rounded bg-slate-900/80 text-xs font-medium text-indigo-200">Drop to preview locally</span>
+                                        )}
+                                    </div>
+                                )}
+
+                                {localPanel?.id === frame.id && (
+                                    <LocalSourcePanel
+                                        initialError={localPanel.error}
+                                        onLoad={(source) => handleLocalLoad(frame.id, source)}
+                                        onClose={() => setLocalPanel(null)}
+                                    />
+                                )}
+
+                                {reviewingId === frame.id && (
+                                    <QaReviewPanel
+                                        review={frame.review}
+                                        onChange={(review) => handleReviewChange(frame.id, review)}
+                                        onClose={() => setReviewingId(null)}
+                                    />
+                                )}
+
+                                {probePanelId === frame.id && (
+                                    <UptimePanel
+                                        settings={frame.probe}
+                                        probe={probes[frame.id]}
+                                        unavailableReason={getProbeUnavailableReason(frame)}
+                                        onChange={(probe) => handleProbeChange(frame.id, probe)}
+                                        onProbeNow={() => probeNow(frame.id)}
+                                        onClose={() => setProbePanelId(null)}
+                                    />
+                                )}
+
+                                {editingPolicyId === frame.id && (
+                                    <FramePolicyEditor
+                                        policy={frame.policy}
+                                        ghostMode={ghostMode}
+                                        isLocalPreview={!!frame.localSource}
+                                        onApply={(policy) => handlePolicyApply(frame.id, policy)}
+                                        onClose={() => setEditingPolicyId(null)}
+                                    />
+                                )}
+
+                                {isMirroring && !frame.isLocked && mirrorSupport[frame.id] === 'none' && (
+                                    <div
+                                        className="absolute top-1.5 right-1.5 px-2 py-0.5 rounded bg-slate-900/80 text-[10px] font-medium text-amber-300 shadow z-10"
+                                        title="Cross-origin page without the mirror script: it won't follow or lead scrolling and navigation"
+                                    >
+                                        Not Mirrorable
+                                    </div>
+                                )}
+
+                                {frame.label && (
+                                    <div className="absolute top-1.5 left-1.5 max-w-[90%] truncate px-2 py-0.5 rounded bg-slate-900/80 text-[10px] font-mono text-indigo-200 shadow pointer-events-none z-10" title={frame.label}>
+                                        {frame.label}
+                                    </div>
+                                )}
                             </div>
                             
                             {/* Status Footer */}
                             <div className="bg-slate-900 border-t border-slate-800 px-2 py-1 flex justify-between items-center h-6">
                                 <div className="flex items-center space-x-2">
-                                    <span className={`text-[9px] font-mono uppercase ${frame.status === 'active' ? (ghostMode ? 'text-purple-400' : 'text-emerald-400') : 'text-slate-600'}`}>
-                                        {frame.status}
+                                    <span className={`text-[9px] font-mono uppercase ${
+                                        frame.status === 'loaded' ? (ghostMode ? 'text-purple-400' : 'text-emerald-400') :
+                                        frame.status === 'loading' ? 'text-sky-400' :
+                                        frame.status === 'timeout' ? 'text-orange-400' :
+                                        frame.status === 'blocked' ? 'text-red-400' :
+                                        'text-slate-600'
+                                    }`}>
+                                        {frame.status === 'blocked' ? 'blocked/unknown' : frame.status}
+                                        {frame.loadTimeMs !== null && ` · ${formatLoadTime(frame.loadTimeMs)}`}
                                     </span>
+                                    <button
+                                        onClick={() => setReviewingId(reviewingId === frame.id ? null : frame.id)}
+                                        className={`px-1.5 rounded text-[9px] font-mono uppercase border transition-colors ${
+                                            frame.review.verdict === 'pass' ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-300' :
+                                            frame.review.verdict === 'fail' ? 'border-red-500/50 bg-red-500/10 text-red-300' :
+                                            frame.review.verdict === 'blocked' ? 'border-amber-500/50 bg-amber-500/10 text-amber-300' :
+                                            'border-slate-700 text-slate-500 hover:text-slate-300'
+                                        }`}
+                                        title={frame.review.notes ? `QA notes:\n${frame.review.notes}` : 'QA verdict, checklist and notes'}
+                                    >
+                                        {getVerdictLabel(frame.review.verdict)}
+                                        {formatChecklistProgress(frame.review.checklist) && ` · ${formatChecklistProgress(frame.review.checklist)}`}
+                                    </button>
                                 </div>
+                                <AutoRefreshControl
+                                    state={frame.autoRefresh}
+                                    gridPaused={autoRefreshPaused}
+                                    onIntervalChange={(interval) => handleRefreshInterval(frame.id, interval)}
+                                    onTogglePause={() => toggleFrameAutoRefresh(frame.id)}
+                                />
                                 {ghostMode && (
                                     <div className="flex items-center space-x-2">
                                         <span className="text-[9px] text-purple-600/70 font-mono flex items-center" title="Unique User Identity Assigned">
@@ -382,9 +1456,9 @@ const BrowserGrid: React.FC<BrowserGridProps> = ({ url: masterUrl, count }) => {
                             </div>
                         </div>
                     ))}
-                </div>
+                </ResizableGrid>
                 
-                {(!masterUrl && frames.every(f => !f.currentUrl)) && (
+                {(!masterUrl && frames.every(f => !f.currentUrl && !f.localSource)) && (
                     <div className="mt-8 text-center animate-fade-in">
                         <p className="text-slate-500 text-sm">
                             Ready. Enable <span className="text-purple-400 font-bold">Ghost Mode</span> to simulate unique users.
@@ -392,6 +1466,19 @@ const BrowserGrid: React.FC<BrowserGridProps> = ({ url: masterUrl, count }) => {
                     </div>
                 )}
             </div>
+
+            {isComparing && (
+                <CompareView
+                    state={compare}
+                    onChange={setCompare}
+                    onClose={() => setCompare(null)}
+                    options={frames.map(f => ({ id: f.id, label: getFrameTitle(f) }))}
+                    left={{ id: compareLeft.id, title: getFrameTitle(compareLeft), url: getDisplayUrl(compareLeft), srcDoc: compareLeft.localSource?.html, ...getFrameAttributes(compareLeft) }}
+                    right={{ id: compareRight.id, title: getFrameTitle(compareRight), url: getDisplayUrl(compareRight), srcDoc: compareRight.localSource?.html, ...getFrameAttributes(compareRight) }}
+                    device={compareLeft.device}
+                    scale={scale}
+                />
+            )}
         </div>
     );
 };
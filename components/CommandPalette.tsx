@@ -0,0 +1,91 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PaletteCommand, filterCommands } from '../utils/commands';
+import { ShortcutMap, formatKeyCombo } from '../utils/shortcuts';
+
+interface CommandPaletteProps {
+    commands: PaletteCommand[];
+    shortcuts: ShortcutMap;
+    onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+// Ctrl/Cmd+K palette: fuzzy search over every grid, frame and workspace action
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, shortcuts, onClose }) => {
+    const [query, setQuery] = useState('');
+    const [activeIndex, setActiveIndex] = useState(0);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    const results = filterCommands(commands, query).slice(0, MAX_RESULTS);
+    const active = Math.min(activeIndex, Math.max(0, results.length - 1));
+
+    useEffect(() => {
+        listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [active]);
+
+    const run = (command: PaletteCommand | undefined) => {
+        if (!command) return;
+        onClose();
+        command.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const delta = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex((active + delta + results.length) % Math.max(1, results.length));
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            run(results[active]);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] bg-slate-950/60 backdrop-blur-sm" onMouseDown={onClose}>
+            <div
+                className="w-full max-w-xl bg-slate-900 border border-slate-700 rounded-lg shadow-2xl overflow-hidden"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <input
+                    autoFocus
+                    type="text"
+                    value={query}
+                    onChange={(e) => {
+                        setQuery(e.target.value);
+                        setActiveIndex(0);
+                    }}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Type a command, e.g. refresh frame 3, lock all, load workspace…"
+                    className="w-full bg-transparent px-4 py-3 text-sm text-slate-200 placeholder-slate-500 border-b border-slate-800 focus:outline-none"
+                />
+                <div ref={listRef} className="max-h-80 overflow-y-auto py-1">
+                    {results.length === 0 ? (
+                        <p className="px-4 py-6 text-center text-xs text-slate-500">No matching commands</p>
+                    ) : results.map((command, index) => (
+                        <button
+                            key={command.id}
+                            data-index={index}
+                            onMouseMove={() => index !== active && setActiveIndex(index)}
+                            onClick={() => run(command)}
+                            className={`w-full flex items-center justify-between px-4 py-1.5 text-left text-sm transition-colors ${
+                                index === active ? 'bg-indigo-600/30 text-white' : 'text-slate-300'
+                            }`}
+                        >
+                            <span className="truncate">{command.title}</span>
+                            {command.action && shortcuts[command.action] && (
+                                <kbd className="ml-3 flex-none px-1.5 rounded bg-slate-800 border border-slate-700 text-[10px] font-mono text-slate-400">
+                                    {formatKeyCombo(shortcuts[command.action])}
+                                </kbd>
+                            )}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CommandPalette;
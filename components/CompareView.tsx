@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useRef } from 'react';
+import FrameViewport from './FrameViewport';
+import { FrameDevice, isFillDevice, formatViewport } from '../utils/devices';
+import { CompareState, COMPARE_MODES, swapCompareSides, clampFraction } from '../utils/compare';
+
+export interface CompareSide {
+    id: number;
+    title: string;
+    url: string;
+    // Local previews render through srcdoc instead of a URL
+    srcDoc?: string;
+    sandbox?: string;
+    allow?: string;
+    referrerPolicy: ReferrerPolicy;
+}
+
+interface CompareViewProps {
+    state: CompareState;
+    onChange: (state: CompareState) => void;
+    onClose: () => void;
+    // Frames that can be picked for either side, in display order
+    options: { id: number; label: string }[];
+    left: CompareSide;
+    right: CompareSide;
+    // Both sides share one viewport and zoom so they line up pixel for pixel
+    device: FrameDevice;
+    scale: number;
+}
+
+const CompareView: React.FC<CompareViewProps> = ({ state, onChange, onClose, options, left, right, device, scale }) => {
+    const paneRef = useRef<HTMLDivElement>(null);
+    const [draggingSplit, setDraggingSplit] = useState(false);
+
+    useEffect(() => {
+        if (!draggingSplit) return;
+
+        const handleMove = (e: PointerEvent) => {
+            const rect = paneRef.current?.getBoundingClientRect();
+            if (!rect || !rect.width) return;
+            onChange({ ...state, split: clampFraction((e.clientX - rect.left) / rect.width) });
+        };
+        const handleUp = () => setDraggingSplit(false);
+
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+        return () => {
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+        };
+    }, [draggingSplit, state, onChange]);
+
+    // Escape closes the view, unless it was meant for an input
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (e.key !== 'Escape' || target?.closest('input, select, textarea')) return;
+            onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const renderFrame = (side: CompareSide) => side.url || side.srcDoc ? (
+        <FrameViewport device={device} scale={scale}>
+            <iframe
+                src={side.srcDoc ? undefined : side.url}
+                srcDoc={side.srcDoc}
+                title={`Compare ${side.title}`}
+                className="w-full h-full border-0"
+                sandbox={side.sandbox}
+                allow={side.allow}
+                referrerPolicy={side.referrerPolicy}
+            />
+        </FrameViewport>
+    ) : (
+        <div className="absolute inset-0 flex items-center justify-center bg-slate-50 text-xs font-medium text-slate-500">
+            {side.title} has no URL
+        </div>
+    );
+
+    // Each side lists every frame but the one on the other side, so a frame is never compared with itself
+    const renderPicker = (side: 'leftId' | 'rightId', tag: string) => (
+        <label className="flex items-center space-x-1.5">
+            <span className="font-bold text-slate-500">{tag}</span>
+            <select
+                value={state[side]}
+                onChange={(e) => onChange({ ...state, [side]: parseInt(e.target.value) })}
+                className="bg-slate-800 border border-slate-700 text-slate-300 rounded px-2 py-1 max-w-[220px] focus:outline-none focus:border-indigo-500"
+            >
+                {options.filter(o => o.id !== state[side === 'leftId' ? 'rightId' : 'leftId']).map(o => (
+                    <option key={o.id} value={o.id}>{o.label}</option>
+                ))}
+            </select>
+        </label>
+    );
+
+    return (
+        <div className="flex-1 min-h-0 flex flex-col bg-slate-950">
+            <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-slate-800 bg-slate-900 text-xs">
+                <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+                    {COMPARE_MODES.map(mode => (
+                        <button
+                            key={mode.id}
+                            onClick={() => onChange({ ...state, mode: mode.id })}
+                            className={`px-3 py-1 transition-colors ${state.mode === mode.id ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {mode.label}
+                        </button>
+                    ))}
+                </div>
+
+                {renderPicker('leftId', 'A')}
+                <button
+                    onClick={() => onChange(swapCompareSides(state))}
+                    className="p-1.5 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:border-slate-500 transition-colors"
+                    title="Swap sides"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                    </svg>
+                </button>
+                {renderPicker('rightId', 'B')}
+
+                {state.mode === 'overlay' && (
+                    <label className="flex items-center space-x-2 text-slate-400">
+                        <span>B Opacity:</span>
+                        <input
+                            type="range"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={state.opacity}
+                            onChange={(e) => onChange({ ...state, opacity: parseFloat(e.target.value) })}
+                            className="w-28 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                        />
+                        <span className="w-8 text-right font-mono">{Math.round(state.opacity * 100)}%</span>
+                    </label>
+                )}
+
+                <span className="font-mono text-slate-500" title="Both sides render at this viewport and zoom">
+                    {isFillDevice(device) ? `Fill · ${Math.round(scale * 100)}%` : formatViewport(device)}
+                </span>
+
+                <button
+                    onClick={onClose}
+                    className="ml-auto px-3 py-1 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:border-slate-500 transition-colors"
+                    title="Back to grid (Esc)"
+                >
+                    Close Compare
+                </button>
+            </div>
+
+            {state.mode === 'side' ? (
+                <div className="flex-1 min-h-0 grid grid-cols-2 gap-4 p-4">
+                    {[left, right].map((side, i) => (
+                        <div key={i} className="flex flex-col min-w-0 rounded-lg overflow-hidden border border-slate-700">
+                            <div className="px-2 py-1 bg-slate-900 text-[10px] font-mono text-slate-400 truncate" title={side.url}>
+                                <span className="font-bold text-slate-500 mr-1.5">{i === 0 ? 'A' : 'B'}</span>{side.title}
+                            </div>
+                            <div className="flex-1 relative bg-white">{renderFrame(side)}</div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div className="flex-1 min-h-0 p-4">
+                    <div ref={paneRef} className="relative h-full rounded-lg overflow-hidden border border-slate-700 bg-white">
+                        {renderFrame(left)}
+                        <div
+                            className="absolute inset-0"
+                            style={state.mode === 'overlay'
+                                ? { opacity: state.opacity }
+                                : { clipPath: `inset(0 0 0 ${state.split * 100}%)` }}
+                        >
+                            {renderFrame(right)}
+                        </div>
+
+                        {state.mode === 'split' && (
+                            <div
+                                onPointerDown={(e) => {
+                                    e.preventDefault();
+                                    setDraggingSplit(true);
+                                }}
+                                className="absolute top-0 bottom-0 w-3 -translate-x-1/2 cursor-col-resize z-10 flex justify-center"
+                                style={{ left: `${state.split * 100}%` }}
+                                title="Drag to reveal A or B"
+                            >
+                                <div className="h-full w-0.5 bg-indigo-500 shadow-[0_0_6px_rgba(99,102,241,0.6)]"></div>
+                            </div>
+                        )}
+
+                        <span className="absolute top-2 left-2 z-10 px-1.5 py-0.5 rounded bg-slate-900/80 text-[10px] font-mono text-slate-300 pointer-events-none">A · {left.title}</span>
+                        <span className="absolute top-2 right-2 z-10 px-1.5 py-0.5 rounded bg-slate-900/80 text-[10px] font-mono text-slate-300 pointer-events-none">B · {right.title}</span>
+                    </div>
+                </div>
+            )}
+
+            {/* Iframes swallow pointer events, so cover them while dragging the split */}
+            {draggingSplit && <div className="fixed inset-0 z-50 cursor-col-resize"></div>}
+        </div>
+    );
+};
+
+export default CompareView;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import {
+    FramePolicy,
+    PolicyPresetId,
+    SandboxToken,
+    PermissionFeature,
+    SANDBOX_TOKENS,
+    PERMISSION_FEATURES,
+    REFERRER_POLICIES,
+    POLICY_PRESETS,
+    createPolicy,
+    matchPreset,
+} from '../utils/framePolicy';
+
+interface FramePolicyEditorProps {
+    policy: FramePolicy;
+    ghostMode: boolean;
+    isLocalPreview: boolean;
+    // Sandbox and permissions only take effect on the next load, so applying reloads the frame
+    onApply: (policy: FramePolicy) => void;
+    onClose: () => void;
+}
+
+const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+// In-tile overlay for editing a frame's sandbox, permissions policy and referrer policy
+const FramePolicyEditor: React.FC<FramePolicyEditorProps> = ({ policy, ghostMode, isLocalPreview, onApply, onClose }) => {
+    const [draft, setDraft] = useState(policy);
+
+    const update = (changes: Partial<Omit<FramePolicy, 'presetId'>>) => {
+        setDraft(prev => {
+            const next = { ...prev, ...changes };
+            return { ...next, presetId: matchPreset(next) };
+        });
+    };
+
+    const sandbox = draft.sandbox;
+
+    return (
+        <div className="absolute inset-0 z-20 overflow-y-auto bg-slate-900/95 backdrop-blur-sm p-3 text-[11px] text-slate-300">
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-semibold text-slate-200">Frame Policy</span>
+                <select
+                    value={draft.presetId}
+                    onChange={(e) => e.target.value !== 'custom' && setDraft(createPolicy(e.target.value as PolicyPresetId))}
+                    className="bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-slate-300 focus:outline-none focus:border-indigo-500"
+                >
+                    {POLICY_PRESETS.map(p => (
+                        <option key={p.id} value={p.id}>{p.label}</option>
+                    ))}
+                    <option value="custom" disabled>Custom</option>
+                </select>
+            </div>
+
+            <label className="flex items-center space-x-1.5 mb-1 font-semibold text-slate-400">
+                <input
+                    type="checkbox"
+                    checked={!!sandbox}
+                    onChange={(e) => update({ sandbox: e.target.checked ? [...(createPolicy('strict').sandbox ?? [])] : null })}
+                    className="rounded border-slate-600 text-indigo-500 bg-slate-700 h-3 w-3"
+                />
+                <span>Sandbox</span>
+            </label>
+            <div className={`grid grid-cols-2 gap-x-2 gap-y-0.5 pl-4 mb-2 ${sandbox ? '' : 'opacity-40'}`}>
+                {SANDBOX_TOKENS.map(t => (
+                    <label key={t.token} className="flex items-center space-x-1.5 truncate" title={t.token}>
+                        <input
+                            type="checkbox"
+                            disabled={!sandbox}
+                            checked={!sandbox || sandbox.includes(t.token)}
+                            onChange={() => sandbox && update({ sandbox: toggle<SandboxToken>(sandbox, t.token) })}
+                            className="rounded border-slate-600 text-indigo-500 bg-slate-700 h-3 w-3"
+                        />
+                        <span className="truncate">{t.label}</span>
+                    </label>
+                ))}
+            </div>
+            {isLocalPreview ? (
+                <p className="pl-4 mb-2 text-amber-300">Local previews never get same-origin access, so their scripts can't reach OmniView.</p>
+            ) : ghostMode && (
+                <p className="pl-4 mb-2 text-purple-300">Ghost Mode removes same-origin access regardless of this setting.</p>
+            )}
+
+            <div className="mb-1 font-semibold text-slate-400">Permissions</div>
+            <div className="grid grid-cols-2 gap-x-2 gap-y-0.5 pl-4 mb-2">
+                {PERMISSION_FEATURES.map(p => (
+                    <label key={p.feature} className="flex items-center space-x-1.5">
+                        <input
+                            type="checkbox"
+                            checked={draft.permissions.includes(p.feature)}
+                            onChange={() => update({ permissions: toggle<PermissionFeature>(draft.permissions, p.feature) })}
+                            className="rounded border-slate-600 text-indigo-500 bg-slate-700 h-3 w-3"
+                        />
+                        <span>{p.label}</span>
+                    </label>
+                ))}
+            </div>
+
+            <label className="flex items-center space-x-2 mb-3">
+                <span className="font-semibold text-slate-400">Referrer</span>
+                <select
+                    value={draft.referrerPolicy}
+                    onChange={(e) => update({ referrerPolicy: e.target.value as ReferrerPolicy })}
+                    className="flex-1 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 font-mono text-slate-300 focus:outline-none focus:border-indigo-500"
+                >
+                    {REFERRER_POLICIES.map(p => (
+                        <option key={p} value={p}>{p}</option>
+                    ))}
+                </select>
+            </label>
+
+            <div className="flex justify-end space-x-2">
+                <button
+                    onClick={onClose}
+                    className="px-3 py-1 rounded bg-slate-700 text-slate-200 text-xs hover:bg-slate-600 transition-colors"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onApply(draft)}
+                    className="px-3 py-1 rounded bg-indigo-600 text-white text-xs hover:bg-indigo-500 transition-colors"
+                >
+                    Apply & Reload
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default FramePolicyEditor;
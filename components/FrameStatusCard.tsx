@@ -0,0 +1,60 @@
+import React from 'react';
+import { FrameStatus } from '../utils/frameLoad';
+
+interface FrameStatusCardProps {
+    status: FrameStatus;
+    detail: string;
+    url: string;
+    // Active sandbox/permission restrictions, which may be why the page is broken
+    restrictions?: string[];
+    onRetry: () => void;
+}
+
+// In-tile explanation for frames that timed out or could not be embedded
+const FrameStatusCard: React.FC<FrameStatusCardProps> = ({ status, detail, url, restrictions = [], onRetry }) => {
+    const isTimeout = status === 'timeout';
+
+    return (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-slate-900/85 backdrop-blur-sm p-4">
+            <div className="max-w-xs w-full bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-4 text-center">
+                <div className={`mx-auto mb-2 w-9 h-9 rounded-full flex items-center justify-center ${isTimeout ? 'bg-orange-500/15 text-orange-400' : 'bg-red-500/15 text-red-400'}`}>
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        {isTimeout
+                            ? <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            : <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+                        }
+                    </svg>
+                </div>
+                <div className="text-sm font-semibold text-slate-200">
+                    {isTimeout ? 'Page Timed Out' : 'Blocked or Unknown'}
+                </div>
+                <p className="mt-1 text-[11px] leading-snug text-slate-400">{detail}</p>
+                {restrictions.length > 0 && (
+                    <p className="mt-1 text-[10px] leading-snug text-amber-300/80" title={restrictions.join('\n')}>
+                        Frame policy: {restrictions.slice(0, 3).join(', ')}{restrictions.length > 3 ? ` +${restrictions.length - 3} more` : ''}
+                    </p>
+                )}
+                <div className="mt-3 flex justify-center space-x-2">
+                    <button
+                        onClick={onRetry}
+                        className="px-3 py-1 rounded bg-indigo-600 text-white text-xs hover:bg-indigo-500 transition-colors"
+                    >
+                        Retry
+                    </button>
+                    {url && (
+                        <a
+                            href={url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="px-3 py-1 rounded bg-slate-700 text-slate-200 text-xs hover:bg-slate-600 transition-colors"
+                        >
+                            Open in New Tab
+                        </a>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FrameStatusCard;
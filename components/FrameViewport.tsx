@@ -0,0 +1,58 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FrameDevice, isFillDevice, getViewportSize, getFitScale } from '../utils/devices';
+
+interface FrameViewportProps {
+    device: FrameDevice;
+    scale: number;
+    children: React.ReactNode;
+}
+
+// Renders frame content either stretched over the tile (zoomed by `scale`)
+// or at an exact device viewport that is scaled down to fit the tile.
+const FrameViewport: React.FC<FrameViewportProps> = ({ device, scale, children }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [box, setBox] = useState({ width: 0, height: 0 });
+
+    useEffect(() => {
+        const el = containerRef.current;
+        if (!el) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setBox({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, []);
+
+    const { width, height } = getViewportSize(device);
+    const fit = getFitScale(device, box.width, box.height);
+
+    return (
+        <div ref={containerRef} className={`absolute inset-0 overflow-hidden ${isFillDevice(device) ? '' : 'bg-slate-700'}`}>
+            {isFillDevice(device) ? (
+                <div
+                    className="absolute top-0 left-0 origin-top-left transition-transform duration-200 ease-out"
+                    style={{
+                        width: `${100 / scale}%`,
+                        height: `${100 / scale}%`,
+                        transform: `scale(${scale})`
+                    }}
+                >
+                    {children}
+                </div>
+            ) : (
+                <div
+                    className="absolute top-1/2 left-1/2 bg-white shadow-2xl origin-center transition-transform duration-200 ease-out"
+                    style={{
+                        width: `${width}px`,
+                        height: `${height}px`,
+                        transform: `translate(-50%, -50%) scale(${fit})`
+                    }}
+                >
+                    {children}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FrameViewport;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import {
+    LocalSource,
+    createPastedSource,
+    createFileSource,
+    readPickedFolder,
+} from '../utils/localPreview';
+
+interface LocalSourcePanelProps {
+    // Shown straight away, e.g. why a drop onto the tile was rejected
+    initialError?: string | null;
+    onLoad: (source: LocalSource) => void;
+    onClose: () => void;
+}
+
+// In-tile overlay for previewing a local HTML file, a built folder or pasted markup
+const LocalSourcePanel: React.FC<LocalSourcePanelProps> = ({ initialError = null, onLoad, onClose }) => {
+    const [html, setHtml] = useState('');
+    const [error, setError] = useState<string | null>(initialError);
+    const [isReading, setIsReading] = useState(false);
+
+    const load = async (read: () => Promise<LocalSource>) => {
+        setError(null);
+        setIsReading(true);
+        try {
+            onLoad(await read());
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Could not read the files');
+        } finally {
+            setIsReading(false);
+        }
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) load(() => createFileSource(file));
+        e.target.value = '';
+    };
+
+    const handleFolder = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = e.target.files;
+        if (files?.length) load(() => readPickedFolder(files));
+        e.target.value = '';
+    };
+
+    const pickerClass = 'flex-1 text-center px-2 py-1 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:border-slate-500 cursor-pointer transition-colors';
+
+    return (
+        <div className="absolute inset-0 z-20 flex flex-col overflow-y-auto bg-slate-900/95 backdrop-blur-sm p-3 text-[11px] text-slate-300">
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-semibold text-slate-200">Local Preview</span>
+                <span className="text-slate-500">or drop a file or folder on the tile</span>
+            </div>
+
+            <div className="flex space-x-2 mb-2">
+                <label className={pickerClass}>
+                    HTML File…
+                    <input type="file" accept=".html,.htm,text/html" className="hidden" onChange={handleFile} />
+                </label>
+                <label className={pickerClass} title="A built static site; relative assets are resolved from the folder">
+                    Folder…
+                    <input
+                        type="file"
+                        multiple
+                        className="hidden"
+                        ref={el => el?.setAttribute('webkitdirectory', '')}
+                        onChange={handleFolder}
+                    />
+                </label>
+            </div>
+
+            <textarea
+                value={html}
+                onChange={(e) => setHtml(e.target.value)}
+                placeholder="<!DOCTYPE html>&#10;<html>…</html>"
+                className="flex-1 min-h-[60px] bg-slate-800 border border-slate-700 rounded px-2 py-1.5 font-mono text-slate-300 placeholder-slate-600 resize-none focus:outline-none focus:border-indigo-500"
+            />
+
+            {error && <p className="mt-1 text-red-400">{error}</p>}
+
+            <div className="mt-2 flex justify-end space-x-2">
+                <button
+                    onClick={onClose}
+                    className="px-3 py-1 rounded bg-slate-700 text-slate-200 text-xs hover:bg-slate-600 transition-colors"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={() => load(async () => createPastedSource(html))}
+                    disabled={!html.trim() || isReading}
+                    className="px-3 py-1 rounded bg-indigo-600 text-white text-xs hover:bg-indigo-500 disabled:opacity-40 transition-colors"
+                >
+                    Render HTML
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default LocalSourcePanel;
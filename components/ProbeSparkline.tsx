@@ -0,0 +1,36 @@
+import React from 'react';
+import { ProbeSample, ProbeHealth, MAX_PROBE_SAMPLES, formatProbeLatency } from '../utils/uptime';
+
+interface ProbeSparklineProps {
+    samples: ProbeSample[];
+    className?: string;
+}
+
+const BAR_COLORS: Record<ProbeHealth, string> = {
+    unknown: 'fill-slate-600',
+    up: 'fill-emerald-500',
+    degraded: 'fill-amber-400',
+    down: 'fill-red-500',
+};
+
+// One bar per probe, newest on the right: height is latency (relative to the slowest
+// sample shown), color is health. Failed probes are full-height red bars.
+const ProbeSparkline: React.FC<ProbeSparklineProps> = ({ samples, className = 'h-3 w-12' }) => {
+    const maxLatency = Math.max(1, ...samples.map(s => s.latencyMs ?? 0));
+    const offset = MAX_PROBE_SAMPLES - samples.length;
+
+    return (
+        <svg className={className} viewBox={`0 0 ${MAX_PROBE_SAMPLES} 10`} preserveAspectRatio="none">
+            {samples.map((s, i) => {
+                const height = s.health === 'down' || s.latencyMs === null ? 10 : Math.max(1.5, (s.latencyMs / maxLatency) * 10);
+                return (
+                    <rect key={s.at} x={offset + i + 0.15} y={10 - height} width={0.7} height={height} className={BAR_COLORS[s.health]}>
+                        <title>{`${new Date(s.at).toLocaleTimeString()}: ${s.status ?? 'no response'}${s.latencyMs === null ? '' : `, ${formatProbeLatency(s.latencyMs)}`}`}</title>
+                    </rect>
+                );
+            })}
+        </svg>
+    );
+};
+
+export default ProbeSparkline;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import {
+    FrameReview,
+    QA_VERDICTS,
+    QA_CHECKLIST_TEMPLATES,
+    updateReview,
+    applyChecklistTemplate,
+    formatChecklistProgress,
+} from '../utils/qaReview';
+
+interface QaReviewPanelProps {
+    review: FrameReview;
+    // Every edit is saved straight away
+    onChange: (review: FrameReview) => void;
+    onClose: () => void;
+}
+
+const VERDICT_STYLES: Record<FrameReview['verdict'], string> = {
+    untested: 'border-slate-500 bg-slate-700 text-slate-200',
+    pass: 'border-emerald-500 bg-emerald-500/20 text-emerald-300',
+    fail: 'border-red-500 bg-red-500/20 text-red-300',
+    blocked: 'border-amber-500 bg-amber-500/20 text-amber-300',
+};
+
+// In-tile overlay for a frame's QA verdict, checklist and notes
+const QaReviewPanel: React.FC<QaReviewPanelProps> = ({ review, onChange, onClose }) => {
+    const [newItem, setNewItem] = useState('');
+
+    const update = (changes: Parameters<typeof updateReview>[1]) => onChange(updateReview(review, changes));
+
+    const addItem = () => {
+        const text = newItem.trim();
+        if (!text) return;
+        update({ checklist: [...review.checklist, { text, done: false }] });
+        setNewItem('');
+    };
+
+    return (
+        <div className="absolute inset-0 z-20 flex flex-col overflow-y-auto bg-slate-900/95 backdrop-blur-sm p-3 text-[11px] text-slate-300">
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-semibold text-slate-200">QA Review</span>
+                {review.reviewedAt !== null && (
+                    <span className="text-slate-500">Updated {new Date(review.reviewedAt).toLocaleTimeString()}</span>
+                )}
+            </div>
+
+            <div className="flex space-x-1 mb-2">
+                {QA_VERDICTS.map(v => (
+                    <button
+                        key={v.id}
+                        onClick={() => update({ verdict: v.id })}
+                        className={`flex-1 px-2 py-1 rounded border transition-colors ${
+                            review.verdict === v.id ? VERDICT_STYLES[v.id] : 'border-slate-700 bg-slate-800 text-slate-400 hover:border-slate-500'
+                        }`}
+                    >
+                        {v.label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex items-center justify-between mb-1">
+                <span className="font-semibold text-slate-400">
+                    Checklist {formatChecklistProgress(review.checklist) && `· ${formatChecklistProgress(review.checklist)}`}
+                </span>
+                <select
+                    value=""
+                    onChange={(e) => update({ checklist: applyChecklistTemplate(review.checklist, e.target.value) })}
+                    className="bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-slate-300 focus:outline-none focus:border-indigo-500"
+                >
+                    <option value="" disabled>Add from template…</option>
+                    {QA_CHECKLIST_TEMPLATES.map(t => (
+                        <option key={t.id} value={t.id}>{t.label}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="space-y-0.5 mb-1">
+                {review.checklist.map((item, i) => (
+                    <div key={i} className="flex items-center space-x-1.5 group">
+                        <input
+                            type="checkbox"
+                            checked={item.done}
+                            onChange={() => update({ checklist: review.checklist.map((c, j) => j === i ? { ...c, done: !c.done } : c) })}
+                            className="rounded border-slate-600 text-indigo-500 bg-slate-700 h-3 w-3"
+                        />
+                        <span className={`flex-1 truncate ${item.done ? 'text-slate-500 line-through' : ''}`} title={item.text}>{item.text}</span>
+                        <button
+                            onClick={() => update({ checklist: review.checklist.filter((_, j) => j !== i) })}
+                            className="px-1 text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="Remove item"
+                        >
+                            ×
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <form
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    addItem();
+                }}
+                className="mb-2"
+            >
+                <input
+                    type="text"
+                    value={newItem}
+                    onChange={(e) => setNewItem(e.target.value)}
+                    placeholder="Add a checklist item…"
+                    className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-300 placeholder-slate-600 focus:outline-none focus:border-indigo-500"
+                />
+            </form>
+
+            <textarea
+                value={review.notes}
+                onChange={(e) => update({ notes: e.target.value })}
+                placeholder="Notes: what was tested, what broke, ticket links…"
+                className="flex-1 min-h-[60px] bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-300 placeholder-slate-600 resize-none focus:outline-none focus:border-indigo-500"
+            />
+
+            <div className="mt-2 flex justify-end">
+                <button
+                    onClick={onClose}
+                    className="px-3 py-1 rounded bg-slate-700 text-slate-200 text-xs hover:bg-slate-600 transition-colors"
+                >
+                    Done
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default QaReviewPanel;
@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LAYOUT_PRESETS, LayoutPreset } from '../utils/gridLayout';
+import { formatLoadTime } from '../utils/frameLoad';
+import { RemoteCommand, RemoteEvent, createRemoteClient } from '../utils/remoteControl';
+
+type GridState = Extract<RemoteEvent, { type: 'state' }>;
+
+const MAX_LOG_ENTRIES = 50;
+
+// Controller page (controller.html): drives an OmniView grid open in another tab or
+// window through the remote control API
+const RemoteController: React.FC = () => {
+    const [state, setState] = useState<GridState | null>(null);
+    const [log, setLog] = useState<{ at: number; text: string; isError: boolean }[]>([]);
+    const [masterUrl, setMasterUrl] = useState('');
+    const [frameUrls, setFrameUrls] = useState<Record<number, string>>({});
+    const [workspace, setWorkspace] = useState('');
+    const clientRef = useRef<ReturnType<typeof createRemoteClient> | null>(null);
+
+    const addLog = (text: string, isError = false) => {
+        setLog(prev => [{ at: Date.now(), text, isError }, ...prev].slice(0, MAX_LOG_ENTRIES));
+    };
+
+    const send = async (command: RemoteCommand) => {
+        const result = await clientRef.current?.send(command);
+        if (result && !result.ok) addLog(`${command.type}: ${result.error}`, true);
+        // Ask for fresh state after anything that changes the grid
+        if (command.type !== 'getState') clientRef.current?.send({ type: 'getState' });
+    };
+
+    useEffect(() => {
+        const client = createRemoteClient(event => {
+            if (event.type === 'state') {
+                setState(event);
+                return;
+            }
+            if (event.type === 'frameLoaded') {
+                addLog(`#${event.frame} loaded ${event.url}${event.loadTimeMs === null ? '' : ` in ${formatLoadTime(event.loadTimeMs)}`}`);
+            } else {
+                addLog(`#${event.frame} ${event.status}: ${event.detail || event.url}`, true);
+            }
+            client.send({ type: 'getState' });
+        });
+        clientRef.current = client;
+        client.send({ type: 'getState' }).then(result => {
+            if (!result.ok) addLog(result.error ?? 'No grid answered', true);
+        });
+        return () => {
+            client.close();
+            clientRef.current = null;
+        };
+    }, []);
+
+    return (
+        <div className="min-h-screen bg-slate-950 text-slate-200 p-6 space-y-4 max-w-4xl mx-auto">
+            <header className="flex items-center justify-between">
+                <h1 className="font-bold text-lg tracking-tight text-white">Omni<span className="text-indigo-400">View</span> Controller</h1>
+                <span className={`text-xs font-mono ${state ? 'text-emerald-400' : 'text-slate-500'}`}>
+                    {state ? `Connected · ${state.frames.length} frames` : 'Waiting for a grid…'}
+                </span>
+            </header>
+
+            <form
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    if (masterUrl.trim()) send({ type: 'setMasterUrl', url: masterUrl });
+                }}
+                className="flex space-x-2"
+            >
+                <input
+                    type="text"
+                    value={masterUrl}
+                    onChange={(e) => setMasterUrl(e.target.value)}
+                    placeholder={state?.masterUrl || 'Master URL'}
+                    className="flex-1 bg-slate-900 border border-slate-700 rounded px-3 py-1.5 text-sm font-mono text-slate-300 focus:outline-none focus:border-indigo-500"
+                />
+                <button type="submit" className="px-4 py-1.5 rounded bg-indigo-600 text-white text-sm hover:bg-indigo-500 transition-colors">
+                    Set Master URL
+                </button>
+            </form>
+
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+                <button
+                    onClick={() => send({ type: 'refreshAll' })}
+                    className="px-3 py-1.5 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:border-slate-500 transition-colors"
+                >
+                    Refresh All
+                </button>
+                <select
+                    value={state?.layout ?? 'auto'}
+                    onChange={(e) => send({ type: 'setLayout', layout: e.target.value as LayoutPreset })}
+                    className="bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-300 focus:outline-none focus:border-indigo-500"
+                >
+                    {LAYOUT_PRESETS.map(p => (
+                        <option key={p.id} value={p.id}>{p.label}</option>
+                    ))}
+                </select>
+                <select
+                    value={workspace}
+                    onChange={(e) => setWorkspace(e.target.value)}
+                    className="bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-300 focus:outline-none focus:border-indigo-500"
+                >
+                    <option value="">Workspace…</option>
+                    {state?.workspaces.map(w => (
+                        <option key={w.id} value={w.id}>{w.name}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => workspace && send({ type: 'loadWorkspace', workspace })}
+                    disabled={!workspace}
+                    className="px-3 py-1.5 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:border-slate-500 disabled:opacity-40 transition-colors"
+                >
+                    Load
+                </button>
+            </div>
+
+            <div className="border border-slate-800 rounded-lg divide-y divide-slate-800">
+                {state?.frames.map(f => (
+                    <div key={f.frame} className="flex items-center space-x-2 px-3 py-2 text-xs">
+                        <span className={`w-2 h-2 rounded-full flex-none ${
+                            f.status === 'loaded' ? 'bg-emerald-500' :
+                            f.status === 'loading' || f.status === 'scheduled' ? 'bg-sky-400 animate-pulse' :
+                            f.status === 'timeout' || f.status === 'blocked' ? 'bg-red-500' :
+                            'bg-slate-600'
+                        }`} title={f.status}></span>
+                        <span className="w-8 font-mono text-slate-500">#{f.frame}</span>
+                        <input
+                            type="text"
+                            value={frameUrls[f.frame] ?? f.url}
+                            onChange={(e) => setFrameUrls(prev => ({ ...prev, [f.frame]: e.target.value }))}
+                            onKeyDown={(e) => {
+                                if (e.key !== 'Enter') return;
+                                send({ type: 'setFrameUrl', frame: f.frame, url: frameUrls[f.frame] ?? f.url });
+                                setFrameUrls(prev => {
+                                    const next = { ...prev };
+                                    delete next[f.frame];
+                                    return next;
+                                });
+                            }}
+                            className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-300 focus:outline-none focus:border-indigo-500"
+                            title={f.name || f.url}
+                        />
+                        <span className="w-14 text-right font-mono text-slate-500">
+                            {f.loadTimeMs === null ? '' : formatLoadTime(f.loadTimeMs)}
+                        </span>
+                        <button
+                            onClick={() => send({ type: 'lock', frame: f.frame, locked: !f.locked })}
+                            className={`px-2 py-1 rounded border transition-colors ${f.locked ? 'border-orange-500/50 text-orange-300' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                        >
+                            {f.locked ? 'Locked' : 'Lock'}
+                        </button>
+                        <button
+                            onClick={() => send({ type: 'refresh', frame: f.frame })}
+                            className="px-2 py-1 rounded border border-slate-700 text-slate-400 hover:border-slate-500 transition-colors"
+                        >
+                            Refresh
+                        </button>
+                    </div>
+                ))}
+                {!state && (
+                    <p className="px-3 py-6 text-center text-xs text-slate-500">Open OmniView in another tab of this browser to control it from here.</p>
+                )}
+            </div>
+
+            <div className="space-y-1 font-mono text-[11px]">
+                {log.map((entry, i) => (
+                    <div key={`${entry.at}-${i}`} className={entry.isError ? 'text-red-400' : 'text-slate-400'}>
+                        <span className="text-slate-600 mr-2">{new Date(entry.at).toLocaleTimeString()}</span>
+                        {entry.text}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default RemoteController;
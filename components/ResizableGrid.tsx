@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+    LayoutPreset,
+    getGridTracks,
+    getDefaultTrackSizes,
+    getTilePlacement,
+    resizeTracks,
+    toTemplate,
+} from '../utils/gridLayout';
+
+interface ResizableGridProps {
+    layout: LayoutPreset;
+    // Key of the child to maximize; the rest collapse into a strip below it
+    focusedKey?: string | null;
+    children: React.ReactElement[];
+}
+
+interface DragState {
+    axis: 'cols' | 'rows';
+    index: number;
+    start: number;
+    length: number;
+    sizes: number[];
+}
+
+// Must match the `gap-4` spacing used by the grid container
+const GAP_PX = 16;
+
+// Height of the collapsed strip in focus mode
+const STRIP_HEIGHT_PX = 140;
+
+// Position of the boundary after track `index`, accounting for grid gaps
+const getBoundaryOffset = (sizes: number[], index: number) => {
+    const total = sizes.reduce((sum, s) => sum + s, 0);
+    const before = sizes.slice(0, index + 1).reduce((sum, s) => sum + s, 0);
+    const gaps = (sizes.length - 1) * GAP_PX;
+    return `calc((100% - ${gaps}px) * ${before / total} + ${index * GAP_PX + GAP_PX / 2}px)`;
+};
+
+const ResizableGrid: React.FC<ResizableGridProps> = ({ layout, focusedKey, children }) => {
+    const count = children.length;
+    const tracks = getGridTracks(layout, count);
+    const [sizes, setSizes] = useState(() => getDefaultTrackSizes(layout, tracks));
+    const [drag, setDrag] = useState<DragState | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Reset track sizes when the shape of the grid changes
+    useEffect(() => {
+        setSizes(getDefaultTrackSizes(layout, tracks));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [layout, tracks.cols, tracks.rows]);
+
+    useEffect(() => {
+        if (!drag) return;
+
+        const handleMove = (e: PointerEvent) => {
+            const pos = drag.axis === 'cols' ? e.clientX : e.clientY;
+            const delta = (pos - drag.start) / drag.length;
+            setSizes(prev => ({ ...prev, [drag.axis]: resizeTracks(drag.sizes, drag.index, delta) }));
+        };
+        const handleUp = () => setDrag(null);
+
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+        return () => {
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+        };
+    }, [drag]);
+
+    const startDrag = (axis: 'cols' | 'rows', index: number) => (e: React.PointerEvent) => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        e.preventDefault();
+        setDrag({
+            axis,
+            index,
+            start: axis === 'cols' ? e.clientX : e.clientY,
+            length: axis === 'cols' ? rect.width : rect.height,
+            sizes: sizes[axis],
+        });
+    };
+
+    // Every mode renders the same keyed wrappers under one root <div>, so switching
+    // modes restyles tiles in place instead of remounting (and reloading) their iframes.
+    if (focusedKey != null && children.some(child => child.key === focusedKey)) {
+        return (
+            <div className="relative h-full flex items-end gap-4">
+                {children.map(child => (
+                    <div
+                        key={child.key}
+                        className={child.key === focusedKey ? 'absolute inset-x-0 top-0' : 'flex-1 min-w-0 max-w-[240px]'}
+                        style={child.key === focusedKey
+                            ? { bottom: `${STRIP_HEIGHT_PX + GAP_PX}px` }
+                            : { height: `${STRIP_HEIGHT_PX}px` }}
+                    >
+                        {child}
+                    </div>
+                ))}
+            </div>
+        );
+    }
+
+    // 'auto' keeps the original responsive, scrolling grid with fixed-height tiles
+    if (layout === 'auto') {
+        return (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+                {children.map(child => (
+                    <div key={child.key} style={{ height: '340px' }}>{child}</div>
+                ))}
+            </div>
+        );
+    }
+
+    const colSizes = sizes.cols.length === tracks.cols ? sizes.cols : getDefaultTrackSizes(layout, tracks).cols;
+    const rowSizes = sizes.rows.length === tracks.rows ? sizes.rows : getDefaultTrackSizes(layout, tracks).rows;
+    const stripStart = layout === 'main-strip' && tracks.cols > 1 ? getBoundaryOffset(colSizes, 0) : '0px';
+
+    return (
+        <div
+            ref={containerRef}
+            className="relative grid gap-4"
+            style={{
+                height: `${(tracks.rows / tracks.visibleRows) * 100}%`,
+                gridTemplateColumns: toTemplate(colSizes),
+                gridTemplateRows: toTemplate(rowSizes),
+            }}
+        >
+            {children.map((child, index) => (
+                <div key={child.key} className="min-h-0 min-w-0" style={getTilePlacement(layout, index, tracks)}>
+                    {child}
+                </div>
+            ))}
+
+            {/* Column dividers */}
+            {colSizes.slice(0, -1).map((_, i) => (
+                <div
+                    key={`col-${i}`}
+                    onPointerDown={startDrag('cols', i)}
+                    className="absolute top-0 bottom-0 w-2 -translate-x-1/2 cursor-col-resize z-20 group"
+                    style={{ left: getBoundaryOffset(colSizes, i) }}
+                >
+                    <div className="mx-auto h-full w-0.5 bg-transparent group-hover:bg-indigo-500/60 transition-colors"></div>
+                </div>
+            ))}
+
+            {/* Row dividers (only across the strip in main-strip layout) */}
+            {rowSizes.slice(0, -1).map((_, i) => (
+                <div
+                    key={`row-${i}`}
+                    onPointerDown={startDrag('rows', i)}
+                    className="absolute right-0 h-2 -translate-y-1/2 cursor-row-resize z-20 group"
+                    style={{ top: getBoundaryOffset(rowSizes, i), left: stripStart }}
+                >
+                    <div className="my-auto w-full h-0.5 mt-[3px] bg-transparent group-hover:bg-indigo-500/60 transition-colors"></div>
+                </div>
+            ))}
+
+            {/* Iframes swallow pointer events, so cover them while dragging */}
+            {drag && (
+                <div className={`fixed inset-0 z-50 ${drag.axis === 'cols' ? 'cursor-col-resize' : 'cursor-row-resize'}`}></div>
+            )}
+        </div>
+    );
+};
+
+export default ResizableGrid;
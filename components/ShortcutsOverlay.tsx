@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import {
+    ShortcutAction,
+    ShortcutMap,
+    SHORTCUT_ACTIONS,
+    getDefaultShortcuts,
+    toKeyCombo,
+    formatKeyCombo,
+    isReservedCombo,
+    findShortcutConflict,
+} from '../utils/shortcuts';
+
+interface ShortcutsOverlayProps {
+    shortcuts: ShortcutMap;
+    onChange: (shortcuts: ShortcutMap) => void;
+    onClose: () => void;
+}
+
+// "?" overlay listing the current key bindings, where each one can be remapped
+const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ shortcuts, onChange, onClose }) => {
+    const [recording, setRecording] = useState<ShortcutAction | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // While recording, the next key press becomes the binding (Escape cancels, Backspace unbinds)
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!recording) {
+                if (e.key !== 'Escape') return;
+                // Don't let the grid also treat it as "restore from focus"
+                e.stopPropagation();
+                onClose();
+                return;
+            }
+            const combo = toKeyCombo(e);
+            if (!combo) return;
+            e.preventDefault();
+            e.stopPropagation();
+            if (combo === 'Escape') {
+                setRecording(null);
+                return;
+            }
+            if (combo === 'Backspace' || combo === 'Delete') {
+                onChange({ ...shortcuts, [recording]: '' });
+                setRecording(null);
+                return;
+            }
+            if (isReservedCombo(combo)) {
+                setError('Number keys are reserved for selecting frames');
+                return;
+            }
+            const conflict = findShortcutConflict(shortcuts, combo, recording);
+            // The other action gives up the key, so a binding never runs two actions
+            onChange({ ...shortcuts, ...(conflict ? { [conflict.id]: '' } : {}), [recording]: combo });
+            setError(conflict ? `${formatKeyCombo(combo)} was taken from "${conflict.label}"` : null);
+            setRecording(null);
+        };
+        // Capture phase, so the global shortcut handler doesn't see the key being recorded
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [recording, shortcuts, onChange, onClose]);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/60 backdrop-blur-sm" onMouseDown={onClose}>
+            <div
+                className="w-full max-w-lg max-h-[80vh] overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg shadow-2xl p-4 text-xs text-slate-300"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-3">
+                    <span className="text-sm font-semibold text-slate-200">Keyboard Shortcuts</span>
+                    <button
+                        onClick={() => {
+                            onChange(getDefaultShortcuts());
+                            setError(null);
+                        }}
+                        className="px-2 py-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                    >
+                        Reset to defaults
+                    </button>
+                </div>
+
+                <div className="divide-y divide-slate-800">
+                    {SHORTCUT_ACTIONS.map(a => (
+                        <div key={a.id} className="flex items-center justify-between py-1.5">
+                            <span>{a.label}</span>
+                            <button
+                                onClick={() => {
+                                    setRecording(recording === a.id ? null : a.id);
+                                    setError(null);
+                                }}
+                                className={`min-w-[4rem] px-2 py-0.5 rounded border font-mono text-[11px] transition-colors ${
+                                    recording === a.id ? 'border-indigo-500 bg-indigo-500/20 text-indigo-200 animate-pulse' : 'border-slate-700 bg-slate-800 text-slate-300 hover:border-slate-500'
+                                }`}
+                                title="Click, then press the new key (Backspace unbinds, Escape cancels)"
+                            >
+                                {recording === a.id ? 'Press a key…' : shortcuts[a.id] ? formatKeyCombo(shortcuts[a.id]) : 'Unbound'}
+                            </button>
+                        </div>
+                    ))}
+                    <div className="flex items-center justify-between py-1.5">
+                        <span>Select frame 1–9, 10</span>
+                        <span className="min-w-[4rem] px-2 py-0.5 text-center font-mono text-[11px] text-slate-500">1 … 9, 0</span>
+                    </div>
+                </div>
+
+                {error && <p className="mt-2 text-amber-300">{error}</p>}
+                <p className="mt-3 text-slate-500">Shortcuts don't fire while you are typing in a URL or text field. Frame shortcuts act on the frame selected with the number keys.</p>
+            </div>
+        </div>
+    );
+};
+
+export default ShortcutsOverlay;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import ProbeSparkline from './ProbeSparkline';
+import {
+    ProbeSettings,
+    FrameProbeState,
+    PROBE_INTERVAL_OPTIONS,
+    parseExpectedStatus,
+    formatProbeInterval,
+    formatProbeLatency,
+    getHealthLabel,
+} from '../utils/uptime';
+
+interface UptimePanelProps {
+    settings: ProbeSettings;
+    probe: FrameProbeState | undefined;
+    // Why this frame can't be probed (no URL, local preview), if so
+    unavailableReason: string | null;
+    onChange: (settings: ProbeSettings) => void;
+    onProbeNow: () => void;
+    onClose: () => void;
+}
+
+const HEALTH_STYLES: Record<FrameProbeState['health'], string> = {
+    unknown: 'border-slate-500 bg-slate-700 text-slate-300',
+    up: 'border-emerald-500 bg-emerald-500/20 text-emerald-300',
+    degraded: 'border-amber-500 bg-amber-500/20 text-amber-300',
+    down: 'border-red-500 bg-red-500/20 text-red-300',
+};
+
+// In-tile overlay for a frame's uptime probe: schedule, expected status codes, and the
+// latest result with its redirects and TLS details
+const UptimePanel: React.FC<UptimePanelProps> = ({ settings, probe, unavailableReason, onChange, onProbeNow, onClose }) => {
+    const [expectedDraft, setExpectedDraft] = useState(settings.expectedStatus);
+    const isExpectedValid = !!parseExpectedStatus(expectedDraft);
+    const result = probe?.result ?? null;
+
+    const commitExpected = () => {
+        if (isExpectedValid && expectedDraft !== settings.expectedStatus) onChange({ ...settings, expectedStatus: expectedDraft.trim() });
+    };
+
+    return (
+        <div className="absolute inset-0 z-20 flex flex-col overflow-y-auto bg-slate-900/95 backdrop-blur-sm p-3 text-[11px] text-slate-300">
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-semibold text-slate-200">Uptime Probe</span>
+                {settings.enabled && probe && (
+                    <span className={`px-1.5 rounded border text-[10px] font-mono uppercase ${HEALTH_STYLES[probe.health]}`}>
+                        {probe.pending && !result ? 'Checking…' : getHealthLabel(probe.health)}
+                    </span>
+                )}
+            </div>
+
+            <label className="flex items-center space-x-1.5 mb-2 cursor-pointer select-none">
+                <input
+                    type="checkbox"
+                    checked={settings.enabled}
+                    onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+                    className="rounded border-slate-600 text-indigo-500 bg-slate-700 h-3 w-3"
+                />
+                <span>Check this frame's URL from the dev server</span>
+            </label>
+
+            <div className="flex items-center space-x-2 mb-1">
+                <span className="w-20 text-slate-400">Every</span>
+                <select
+                    value={settings.interval}
+                    onChange={(e) => onChange({ ...settings, interval: Number(e.target.value) })}
+                    className="bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-slate-300 focus:outline-none focus:border-indigo-500"
+                >
+                    {!PROBE_INTERVAL_OPTIONS.includes(settings.interval) && (
+                        <option value={settings.interval}>{formatProbeInterval(settings.interval)}</option>
+                    )}
+                    {PROBE_INTERVAL_OPTIONS.map(ms => (
+                        <option key={ms} value={ms}>{formatProbeInterval(ms)}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="flex items-center space-x-2 mb-2">
+                <span className="w-20 text-slate-400">Expected status</span>
+                <input
+                    type="text"
+                    value={expectedDraft}
+                    onChange={(e) => setExpectedDraft(e.target.value)}
+                    onBlur={commitExpected}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitExpected();
+                    }}
+                    placeholder="200-299, 301"
+                    className={`flex-1 min-w-0 bg-slate-800 border rounded px-2 py-0.5 font-mono text-slate-300 focus:outline-none ${
+                        isExpectedValid ? 'border-slate-700 focus:border-indigo-500' : 'border-red-500/60'
+                    }`}
+                    title="Codes, ranges or classes, e.g. 200-299, 301 or 2xx"
+                />
+            </div>
+            {!isExpectedValid && <p className="-mt-1 mb-2 text-red-300">Use codes, ranges or classes, e.g. 200-299, 301 or 2xx.</p>}
+
+            {unavailableReason ? (
+                <p className="text-amber-300">{unavailableReason}</p>
+            ) : settings.enabled && probe && (
+                <div className="space-y-1">
+                    <div className="flex items-center justify-between">
+                        <span className="font-semibold text-slate-400">Last {probe.samples.length} checks</span>
+                        <ProbeSparkline samples={probe.samples} className="h-5 w-32" />
+                    </div>
+                    <p className={probe.health === 'down' ? 'text-red-300' : probe.health === 'degraded' ? 'text-amber-300' : ''}>
+                        {probe.reason || 'Waiting for the first check…'}
+                    </p>
+                    {result && (
+                        <dl className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5 font-mono text-[10px] text-slate-400">
+                            <dt>Status</dt>
+                            <dd className="text-slate-300">{result.status ?? '—'}</dd>
+                            <dt>Latency</dt>
+                            <dd className="text-slate-300">{result.latencyMs === null ? '—' : formatProbeLatency(result.latencyMs)}</dd>
+                            {result.redirects.map((r, i) => (
+                                <React.Fragment key={i}>
+                                    <dt>{r.status}</dt>
+                                    <dd className="truncate" title={r.location}>→ {r.location}</dd>
+                                </React.Fragment>
+                            ))}
+                            {result.tls && (
+                                <>
+                                    <dt>TLS</dt>
+                                    <dd className={result.tls.authorized ? 'text-slate-300' : 'text-amber-300'}>
+                                        {result.tls.protocol ?? 'unknown'}{result.tls.authorized ? '' : ` · ${result.tls.error ?? 'untrusted'}`}
+                                    </dd>
+                                    <dt>Certificate</dt>
+                                    <dd className="truncate">
+                                        {result.tls.issuer ?? 'unknown issuer'}
+                                        {result.tls.daysRemaining !== null && ` · ${result.tls.daysRemaining} days left`}
+                                    </dd>
+                                </>
+                            )}
+                            <dt>Checked</dt>
+                            <dd>{new Date(result.checkedAt).toLocaleTimeString()}</dd>
+                        </dl>
+                    )}
+                </div>
+            )}
+
+            <div className="mt-auto pt-2 flex justify-end space-x-2">
+                {settings.enabled && !unavailableReason && (
+                    <button
+                        onClick={onProbeNow}
+                        disabled={probe?.pending}
+                        className="px-3 py-1 rounded border border-slate-600 text-slate-300 text-xs hover:border-slate-400 disabled:opacity-50 transition-colors"
+                    >
+                        Check now
+                    </button>
+                )}
+                <button
+                    onClick={onClose}
+                    className="px-3 py-1 rounded bg-slate-700 text-slate-200 text-xs hover:bg-slate-600 transition-colors"
+                >
+                    Done
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default UptimePanel;
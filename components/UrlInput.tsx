@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+import { checkUrl } from '../utils/url';
+import { RECENT_URLS_LIST_ID } from '../utils/recentUrls';
+
+interface UrlInputProps {
+    value: string;
+    onCommit: (url: string) => void;
+    className?: string;
+    placeholder?: string;
+}
+
+// URL field that edits a local draft and only commits on Enter or blur,
+// so the frame isn't reloaded on every keystroke. Escape reverts the draft.
+const UrlInput: React.FC<UrlInputProps> = ({ value, onCommit, className = '', placeholder }) => {
+    const [draft, setDraft] = useState(value);
+    const [error, setError] = useState<string | null>(null);
+
+    // Follow external changes (sync, history navigation) to the committed URL
+    useEffect(() => {
+        setDraft(value);
+        setError(null);
+    }, [value]);
+
+    const commit = () => {
+        if (draft.trim() === value.trim()) return;
+        if (!draft.trim()) {
+            setDraft(value);
+            return;
+        }
+        const result = checkUrl(draft);
+        if (!result.ok) {
+            setError(result.reason);
+            return;
+        }
+        setError(null);
+        onCommit(result.url);
+    };
+
+    return (
+        <input
+            type="text"
+            value={draft}
+            list={RECENT_URLS_LIST_ID}
+            onChange={(e) => {
+                setDraft(e.target.value);
+                setError(null);
+            }}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') commit();
+                if (e.key === 'Escape') {
+                    setDraft(value);
+                    setError(null);
+                    e.currentTarget.blur();
+                }
+            }}
+            onBlur={commit}
+            className={`${className} ${error ? '!border-red-500 !text-red-300' : ''}`}
+            placeholder={placeholder}
+            title={error ?? draft}
+            aria-invalid={!!error}
+        />
+    );
+};
+
+export default UrlInput;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { UrlMatrix, MatrixEntry, syncVariables, expandMatrix, countMatrix } from '../utils/urlMatrix';
+
+interface UrlMatrixPanelProps {
+    matrix: UrlMatrix;
+    onChange: (matrix: UrlMatrix) => void;
+    // Frames that will receive URLs (locked frames are skipped)
+    availableFrames: number;
+    onApply: (entries: MatrixEntry[]) => void;
+}
+
+const UrlMatrixPanel: React.FC<UrlMatrixPanelProps> = ({ matrix, onChange, availableFrames, onApply }) => {
+    const entries = expandMatrix(matrix);
+    const total = countMatrix(matrix);
+    const overflow = total - availableFrames;
+
+    const handleTemplateChange = (template: string) => {
+        onChange({ ...matrix, template, variables: syncVariables(template, matrix.variables) });
+    };
+
+    const handleValuesChange = (name: string, values: string) => {
+        onChange({ ...matrix, variables: matrix.variables.map(v => v.name === name ? { ...v, values } : v) });
+    };
+
+    return (
+        <div className="border-t border-slate-800 bg-slate-950/60 px-4 py-3 text-xs space-y-3">
+            <div className="flex items-center space-x-3">
+                <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+                    {(['template', 'list'] as const).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => onChange({ ...matrix, mode })}
+                            className={`px-3 py-1 transition-colors ${matrix.mode === mode ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {mode === 'template' ? 'Template' : 'URL List'}
+                        </button>
+                    ))}
+                </div>
+                <span className="text-slate-500">
+                    {matrix.mode === 'template'
+                        ? 'Use {name} placeholders, then give each variable comma-separated values.'
+                        : 'One URL per line, assigned to frames in order.'}
+                </span>
+            </div>
+
+            {matrix.mode === 'template' ? (
+                <>
+                    <input
+                        type="text"
+                        value={matrix.template}
+                        onChange={(e) => handleTemplateChange(e.target.value)}
+                        placeholder="https://{env}.shop.example.com/{locale}/cart?flag={variant}"
+                        className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1.5 font-mono text-slate-300 placeholder-slate-600 focus:outline-none focus:border-indigo-500"
+                    />
+                    {matrix.variables.length > 0 && (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                            {matrix.variables.map(v => (
+                                <label key={v.name} className="flex items-center space-x-2">
+                                    <span className="font-mono text-indigo-300 flex-none">{`{${v.name}}`}</span>
+                                    <input
+                                        type="text"
+                                        value={v.values}
+                                        onChange={(e) => handleValuesChange(v.name, e.target.value)}
+                                        placeholder="prod, staging, preview"
+                                        className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-slate-300 placeholder-slate-600 focus:outline-none focus:border-indigo-500"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </>
+            ) : (
+                <textarea
+                    value={matrix.list}
+                    onChange={(e) => onChange({ ...matrix, list: e.target.value })}
+                    rows={4}
+                    placeholder={'https://example.com\nhttps://staging.example.com\nhttps://preview.example.com'}
+                    className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1.5 font-mono text-slate-300 placeholder-slate-600 focus:outline-none focus:border-indigo-500 resize-y"
+                />
+            )}
+
+            <div className="flex items-center space-x-3">
+                <button
+                    onClick={() => onApply(entries.slice(0, availableFrames))}
+                    disabled={total === 0 || availableFrames === 0}
+                    className="px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40 transition-colors"
+                >
+                    Apply to Grid
+                </button>
+                <span className="text-slate-500 font-mono">
+                    {total} {total === 1 ? 'URL' : 'URLs'} → {availableFrames} unlocked {availableFrames === 1 ? 'frame' : 'frames'}
+                </span>
+                {overflow > 0 && (
+                    <span className="text-orange-400">{overflow} won't fit, add frames to see them all</span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default UrlMatrixPanel;
@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Workspace, parseWorkspaceExport } from '../utils/workspaces';
+
+interface WorkspaceSwitcherProps {
+    workspaces: Workspace[];
+    activeId: string | null;
+    onLoad: (workspace: Workspace) => void;
+    onSaveAs: (name: string) => void;
+    onUpdate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onImport: (workspaces: Workspace[]) => void;
+    onExport: () => void;
+}
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+    workspaces,
+    activeId,
+    onLoad,
+    onSaveAs,
+    onUpdate,
+    onDelete,
+    onImport,
+    onExport,
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [newName, setNewName] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const active = workspaces.find(w => w.id === activeId);
+
+    // Close when clicking anywhere outside the popover
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (e: MouseEvent) => {
+            if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [isOpen]);
+
+    const handleSaveAs = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        onSaveAs(newName.trim());
+        setNewName('');
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            onImport(parseWorkspaceExport(await file.text()));
+            setImportError(null);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : 'Import failed');
+        }
+    };
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center space-x-2 bg-slate-900 border border-slate-700 rounded-full px-3 py-1 text-xs text-slate-300 hover:border-slate-500 transition-colors max-w-[12rem]"
+                title="Workspaces"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5 flex-none text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+                </svg>
+                <span className="truncate">{active ? active.name : 'Unsaved Workspace'}</span>
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-72 bg-slate-900 border border-slate-700 rounded-lg shadow-2xl z-50 text-xs">
+                    <div className="max-h-64 overflow-y-auto py-1">
+                        {workspaces.length === 0 && (
+                            <div className="px-3 py-3 text-slate-500 text-center">No saved workspaces yet</div>
+                        )}
+                        {workspaces.map(w => (
+                            <div
+                                key={w.id}
+                                className={`flex items-center px-3 py-1.5 group ${w.id === activeId ? 'bg-indigo-600/20' : 'hover:bg-slate-800'}`}
+                            >
+                                <button
+                                    onClick={() => { onLoad(w); setIsOpen(false); }}
+                                    className="flex-1 text-left min-w-0"
+                                >
+                                    <div className={`truncate font-medium ${w.id === activeId ? 'text-indigo-300' : 'text-slate-200'}`}>{w.name}</div>
+                                    <div className="text-[10px] text-slate-500">
+                                        {w.state.frames.length} frames · {new Date(w.updatedAt).toLocaleString()}
+                                    </div>
+                                </button>
+                                <button
+                                    onClick={() => onDelete(w.id)}
+                                    className="p-1 ml-2 rounded text-slate-600 opacity-0 group-hover:opacity-100 hover:text-red-400 hover:bg-slate-700 transition-all"
+                                    title="Delete workspace"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                    </svg>
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="border-t border-slate-800 p-2 space-y-2">
+                        {active && (
+                            <button
+                                onClick={() => onUpdate(active.id)}
+                                className="w-full px-2 py-1.5 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:border-indigo-500 transition-colors truncate"
+                            >
+                                Update "{active.name}"
+                            </button>
+                        )}
+                        <form onSubmit={handleSaveAs} className="flex space-x-1">
+                            <input
+                                type="text"
+                                value={newName}
+                                onChange={(e) => setNewName(e.target.value)}
+                                placeholder="New workspace name..."
+                                className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-300 placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+                            />
+                            <button
+                                type="submit"
+                                disabled={!newName.trim()}
+                                className="px-3 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40 transition-colors"
+                            >
+                                Save
+                            </button>
+                        </form>
+                    </div>
+
+                    <div className="border-t border-slate-800 px-2 py-1.5 flex items-center justify-between">
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="px-2 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                        >
+                            Import JSON
+                        </button>
+                        <button
+                            onClick={onExport}
+                            disabled={workspaces.length === 0}
+                            className="px-2 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40 transition-colors"
+                        >
+                            Export All
+                        </button>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+                    </div>
+                    {importError && (
+                        <div className="px-3 pb-2 text-[10px] text-red-400">{importError}</div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WorkspaceSwitcher;
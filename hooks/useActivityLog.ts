@@ -0,0 +1,10 @@
+import { useState, useEffect } from 'react';
+import { getActivity, subscribeActivity } from '../utils/activityLog';
+
+export const useActivityLog = () => {
+    const [entries, setEntries] = useState(getActivity);
+
+    useEffect(() => subscribeActivity(() => setEntries(getActivity())), []);
+
+    return entries;
+};
@@ -0,0 +1,228 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+    MirrorSupport,
+    MirrorHostMessage,
+    MIRROR_HANDSHAKE_TIMEOUT,
+    MIRROR_LEAD_MS,
+    toMirrorMessage,
+    parseMirrorMessage,
+    getRelativeScroll,
+    scrollToRelative,
+    toMirrorPath,
+} from '../utils/mirror';
+
+// Mirrors scrolling and in-page navigation from whichever frame the user interacts
+// with to every other participating frame. `canMirror` decides which frames take
+// part (e.g. unlocked ones); it is read at event time, so it may change every render.
+export const useFrameMirror = (enabled: boolean, canMirror: (id: number) => boolean) => {
+    const [support, setSupport] = useState<Record<number, MirrorSupport>>({});
+    const supportRef = useRef(new Map<number, MirrorSupport>());
+    const iframesRef = useRef(new Map<number, HTMLIFrameElement>());
+    const refCallbacksRef = useRef(new Map<number, (el: HTMLIFrameElement | null) => void>());
+    const handshakeTimersRef = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+    const detachRef = useRef(new Map<number, () => void>());
+    // Last URL each frame reported, to tell a page load that followed a navigation from the first one
+    const lastUrlRef = useRef(new Map<number, string>());
+    // Paths we sent to followers, so their own navigation report isn't broadcast back
+    const expectedPathRef = useRef(new Map<number, string>());
+    const leadRef = useRef<{ id: number; until: number } | null>(null);
+
+    const enabledRef = useRef(enabled);
+    enabledRef.current = enabled;
+    const canMirrorRef = useRef(canMirror);
+    canMirrorRef.current = canMirror;
+
+    // Everything below only reads refs, so the listeners attached to iframes
+    // and their windows stay valid across renders
+    const setFrameSupport = (id: number, value: MirrorSupport | null) => {
+        if (value) supportRef.current.set(id, value);
+        else supportRef.current.delete(id);
+        setSupport(prev => {
+            if ((prev[id] ?? null) === value) return prev;
+            const next = { ...prev };
+            if (value) next[id] = value;
+            else delete next[id];
+            return next;
+        });
+    };
+
+    const stopTracking = (id: number) => {
+        clearTimeout(handshakeTimersRef.current.get(id));
+        handshakeTimersRef.current.delete(id);
+        detachRef.current.get(id)?.();
+        detachRef.current.delete(id);
+    };
+
+    const getFollowers = (leaderId: number) => {
+        const followers: { id: number; win: Window; support: MirrorSupport }[] = [];
+        iframesRef.current.forEach((iframe, id) => {
+            const value = supportRef.current.get(id);
+            if (id === leaderId || !iframe.contentWindow || !canMirrorRef.current(id)) return;
+            if (value === 'same-origin' || value === 'script') followers.push({ id, win: iframe.contentWindow, support: value });
+        });
+        return followers;
+    };
+
+    const post = (win: Window, message: MirrorHostMessage) => {
+        win.postMessage(toMirrorMessage(message), '*');
+    };
+
+    const mirrorScroll = (id: number, x: number, y: number) => {
+        if (!enabledRef.current || !canMirrorRef.current(id)) return;
+        // Followers report the scroll we applied to them; only the current leader is mirrored
+        const now = Date.now();
+        const lead = leadRef.current;
+        if (lead && lead.id !== id && now < lead.until) return;
+        leadRef.current = { id, until: now + MIRROR_LEAD_MS };
+
+        getFollowers(id).forEach(f => {
+            try {
+                if (f.support === 'same-origin') scrollToRelative(f.win, x, y);
+                else post(f.win, { type: 'scroll-to', x, y });
+            } catch {
+                // The follower navigated away mid-scroll; its next load re-probes it
+            }
+        });
+    };
+
+    const mirrorNavigation = (id: number, url: string) => {
+        const path = toMirrorPath(url);
+        if (!path || !enabledRef.current || !canMirrorRef.current(id)) return;
+        if (expectedPathRef.current.get(id) === path) {
+            expectedPathRef.current.delete(id);
+            return;
+        }
+
+        getFollowers(id).forEach(f => {
+            expectedPathRef.current.set(f.id, path);
+            try {
+                if (f.support === 'same-origin') {
+                    const target = new URL(path, f.win.location.origin).href;
+                    if (target !== f.win.location.href) f.win.location.assign(target);
+                } else {
+                    post(f.win, { type: 'navigate-to', path });
+                }
+            } catch {
+                expectedPathRef.current.delete(f.id);
+            }
+        });
+    };
+
+    const reportUrl = (id: number, url: string) => {
+        const previous = lastUrlRef.current.get(id);
+        lastUrlRef.current.set(id, url);
+        if (previous !== undefined && previous !== url) mirrorNavigation(id, url);
+    };
+
+    // Work out how a freshly loaded frame can be mirrored
+    const probe = (id: number, iframe: HTMLIFrameElement) => {
+        stopTracking(id);
+        const win = iframe.contentWindow;
+        if (!enabledRef.current || !win) return;
+
+        let sameOriginUrl: string | null = null;
+        try {
+            // Throws for cross-origin (and opaque, sandboxed) documents
+            sameOriginUrl = win.location.href;
+        } catch {
+            sameOriginUrl = null;
+        }
+
+        if (sameOriginUrl && sameOriginUrl !== 'about:blank') {
+            const handleScroll = () => {
+                const { x, y } = getRelativeScroll(win);
+                mirrorScroll(id, x, y);
+            };
+            const handleUrlChange = () => reportUrl(id, win.location.href);
+            win.addEventListener('scroll', handleScroll, { passive: true });
+            win.addEventListener('hashchange', handleUrlChange);
+            win.addEventListener('popstate', handleUrlChange);
+            detachRef.current.set(id, () => {
+                win.removeEventListener('scroll', handleScroll);
+                win.removeEventListener('hashchange', handleUrlChange);
+                win.removeEventListener('popstate', handleUrlChange);
+            });
+            setFrameSupport(id, 'same-origin');
+            reportUrl(id, sameOriginUrl);
+            return;
+        }
+
+        // Cross-origin: only pages running the mirror script answer
+        setFrameSupport(id, 'pending');
+        post(win, { type: 'ping' });
+        handshakeTimersRef.current.set(id, setTimeout(() => {
+            handshakeTimersRef.current.delete(id);
+            if (supportRef.current.get(id) === 'pending') setFrameSupport(id, 'none');
+        }, MIRROR_HANDSHAKE_TIMEOUT));
+    };
+
+    useEffect(() => {
+        if (!enabled) {
+            iframesRef.current.forEach((_, id) => stopTracking(id));
+            supportRef.current.clear();
+            lastUrlRef.current.clear();
+            expectedPathRef.current.clear();
+            leadRef.current = null;
+            setSupport({});
+            return;
+        }
+
+        iframesRef.current.forEach((iframe, id) => probe(id, iframe));
+
+        const handleMessage = (e: MessageEvent) => {
+            const message = parseMirrorMessage(e.data);
+            if (!message) return;
+            const id = [...iframesRef.current].find(([, iframe]) => iframe.contentWindow === e.source)?.[0];
+            if (id === undefined) return;
+
+            if (message.type === 'hello') {
+                clearTimeout(handshakeTimersRef.current.get(id));
+                handshakeTimersRef.current.delete(id);
+                if (supportRef.current.get(id) !== 'same-origin') setFrameSupport(id, 'script');
+                reportUrl(id, message.url);
+            } else if (message.type === 'scroll') {
+                mirrorScroll(id, message.x, message.y);
+            } else {
+                reportUrl(id, message.url);
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [enabled]);
+
+    useEffect(() => () => iframesRef.current.forEach((_, id) => stopTracking(id)), []);
+
+    // Stable ref callback per frame id. A frame reload mounts a new iframe, which
+    // starts a fresh handshake and forgets the URL the old one reported.
+    const registerFrame = useCallback((id: number) => {
+        let callback = refCallbacksRef.current.get(id);
+        if (!callback) {
+            let current: HTMLIFrameElement | null = null;
+            const handleLoad = () => {
+                if (current) probe(id, current);
+            };
+            callback = (el: HTMLIFrameElement | null) => {
+                if (el === current) return;
+                current?.removeEventListener('load', handleLoad);
+                stopTracking(id);
+                lastUrlRef.current.delete(id);
+                expectedPathRef.current.delete(id);
+                current = el;
+                if (el) {
+                    iframesRef.current.set(id, el);
+                    el.addEventListener('load', handleLoad);
+                } else {
+                    iframesRef.current.delete(id);
+                    setFrameSupport(id, null);
+                }
+            };
+            refCallbacksRef.current.set(id, callback);
+        }
+        return callback;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    return { mirrorSupport: support, registerFrame };
+};
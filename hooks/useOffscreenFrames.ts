@@ -0,0 +1,64 @@
+import { useState, useEffect, useRef, useCallback, RefObject } from 'react';
+
+// Tracks which frame tiles are scrolled out of view inside `rootRef`.
+// Frames count as on screen until the observer has reported otherwise.
+export const useOffscreenFrames = (rootRef: RefObject<HTMLElement | null>, enabled: boolean) => {
+    const [offscreenIds, setOffscreenIds] = useState<Set<number>>(() => new Set());
+    const observerRef = useRef<IntersectionObserver | null>(null);
+    const elementsRef = useRef(new Map<number, Element>());
+    const refCallbacksRef = useRef(new Map<number, (el: Element | null) => void>());
+
+    useEffect(() => {
+        if (!enabled) {
+            setOffscreenIds(new Set());
+            return;
+        }
+
+        const observer = new IntersectionObserver(entries => {
+            setOffscreenIds(prev => {
+                const next = new Set(prev);
+                entries.forEach(entry => {
+                    const id = Number((entry.target as HTMLElement).dataset.frameId);
+                    if (entry.isIntersecting) next.delete(id);
+                    else next.add(id);
+                });
+                return next;
+            });
+        // Keep frames just outside the viewport alive so short scrolls don't reload them
+        }, { root: rootRef.current, rootMargin: '200px' });
+
+        observerRef.current = observer;
+        elementsRef.current.forEach(el => observer.observe(el));
+        return () => {
+            observer.disconnect();
+            observerRef.current = null;
+        };
+    }, [enabled, rootRef]);
+
+    // Stable ref callback per frame id, so elements aren't re-observed on every render
+    const observeFrame = useCallback((id: number) => {
+        let callback = refCallbacksRef.current.get(id);
+        if (!callback) {
+            callback = (el: Element | null) => {
+                const previous = elementsRef.current.get(id);
+                if (previous) observerRef.current?.unobserve(previous);
+                if (el) {
+                    elementsRef.current.set(id, el);
+                    observerRef.current?.observe(el);
+                } else {
+                    elementsRef.current.delete(id);
+                    setOffscreenIds(prev => {
+                        if (!prev.has(id)) return prev;
+                        const next = new Set(prev);
+                        next.delete(id);
+                        return next;
+                    });
+                }
+            };
+            refCallbacksRef.current.set(id, callback);
+        }
+        return callback;
+    }, []);
+
+    return { offscreenIds, observeFrame };
+};
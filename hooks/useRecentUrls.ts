@@ -0,0 +1,10 @@
+import { useState, useEffect } from 'react';
+import { getRecentUrls, subscribeRecentUrls } from '../utils/recentUrls';
+
+export const useRecentUrls = () => {
+    const [urls, setUrls] = useState(getRecentUrls);
+
+    useEffect(() => subscribeRecentUrls(() => setUrls(getRecentUrls())), []);
+
+    return urls;
+};
@@ -0,0 +1,64 @@
+import { useEffect, useRef, useCallback } from 'react';
+import {
+    RemoteCommand,
+    RemoteEvent,
+    REMOTE_CHANNEL,
+    isTrustedRemoteOrigin,
+    validateCommand,
+    parseRemoteMessage,
+    toResultMessage,
+    toEventMessage,
+} from '../utils/remoteControl';
+
+// Grid side of the remote control protocol. `onCommand` runs every valid command
+// and returns an error message, or null on success. Returns `emit`, which sends an
+// event to every controller.
+export const useRemoteControl = (onCommand: (command: RemoteCommand) => string | null) => {
+    const onCommandRef = useRef(onCommand);
+    onCommandRef.current = onCommand;
+    const channelRef = useRef<BroadcastChannel | null>(null);
+    // Windows that sent commands over postMessage, with the origin to answer them on
+    const peersRef = useRef(new Map<Window, string>());
+
+    useEffect(() => {
+        const handle = (data: unknown, reply: (message: object) => void) => {
+            const message = parseRemoteMessage(data);
+            if (message?.kind !== 'command') return false;
+            const check = validateCommand(message.command);
+            const error = check.ok ? onCommandRef.current(check.command) : check.error;
+            reply(toResultMessage(message.requestId ?? '', error));
+            return true;
+        };
+
+        const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(REMOTE_CHANNEL);
+        if (channel) channel.onmessage = (e) => handle(e.data, reply => channel.postMessage(reply));
+        channelRef.current = channel;
+
+        // Other windows of the grid's own origin may drive it; everything else is ignored unanswered
+        const handleMessage = (e: MessageEvent) => {
+            const source = e.source as Window | null;
+            if (!source || source === window || !isTrustedRemoteOrigin(e.origin, window.location.origin)) return;
+            const handled = handle(e.data, reply => source.postMessage(reply, e.origin));
+            if (handled) peersRef.current.set(source, e.origin);
+        };
+        window.addEventListener('message', handleMessage);
+
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            channel?.close();
+            channelRef.current = null;
+        };
+    }, []);
+
+    return useCallback((event: RemoteEvent) => {
+        const message = toEventMessage(event);
+        channelRef.current?.postMessage(message);
+        peersRef.current.forEach((origin, peer) => {
+            if (peer.closed) {
+                peersRef.current.delete(peer);
+                return;
+            }
+            peer.postMessage(message, origin);
+        });
+    }, []);
+};
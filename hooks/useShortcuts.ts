@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import {
+    ShortcutAction,
+    ShortcutMap,
+    SHORTCUT_ACTIONS,
+    toKeyCombo,
+    isReservedCombo,
+    isTypingTarget,
+} from '../utils/shortcuts';
+
+// Global keyboard shortcuts while `enabled`. Number keys select a frame (0 = #10), other
+// keys run the action bound to them. Nothing fires while the user is typing in a text field.
+export const useShortcuts = (
+    enabled: boolean,
+    shortcuts: ShortcutMap,
+    onAction: (action: ShortcutAction) => void,
+    onSelectTile: (tile: number) => void
+) => {
+    const handlersRef = useRef({ onAction, onSelectTile });
+    handlersRef.current = { onAction, onSelectTile };
+
+    useEffect(() => {
+        if (!enabled) return;
+        const actionsByCombo = new Map<string, ShortcutAction>(
+            SHORTCUT_ACTIONS.filter(a => shortcuts[a.id]).map(a => [shortcuts[a.id], a.id])
+        );
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.defaultPrevented || e.isComposing || isTypingTarget(e.target)) return;
+            const combo = toKeyCombo(e);
+            if (!combo) return;
+            if (isReservedCombo(combo)) {
+                e.preventDefault();
+                handlersRef.current.onSelectTile(combo === '0' ? 10 : Number(combo));
+                return;
+            }
+            const action = actionsByCombo.get(combo);
+            if (!action) return;
+            e.preventDefault();
+            handlersRef.current.onAction(action);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [enabled, shortcuts]);
+};
@@ -0,0 +1,143 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+    ProbeSettings,
+    FrameProbeState,
+    createProbeState,
+    requestProbe,
+    getProbeHealth,
+    addProbeSample,
+} from '../utils/uptime';
+
+export interface ProbeTarget {
+    id: number;
+    url: string; // Normalized http(s) URL
+    probe: ProbeSettings;
+}
+
+// Probes never take longer than this, even on long intervals
+const PROBE_TIMEOUT = 10000;
+
+const getSettingsKey = (target: ProbeTarget) => `${target.probe.interval} ${target.probe.expectedStatus}`;
+
+// Probes every target on its own interval through the dev server endpoint, keeping the
+// latest result, health and sample history per frame. History starts over when a frame's
+// URL changes. `onHealthChange` fires when a frame's known health changes (e.g. up to down),
+// not for its first result.
+export const useUptimeProbes = (
+    targets: ProbeTarget[],
+    onHealthChange: (id: number, prev: FrameProbeState, next: FrameProbeState) => void
+) => {
+    const [probes, setProbes] = useState<Record<number, FrameProbeState>>({});
+    // Mirrors of the latest state and props, for probes settling after a re-render
+    const probesRef = useRef(probes);
+    const targetsRef = useRef(targets);
+    const onHealthChangeRef = useRef(onHealthChange);
+    targetsRef.current = targets;
+    onHealthChangeRef.current = onHealthChange;
+    // Next probe time per frame, and the settings it was scheduled with
+    const dueRef = useRef(new Map<number, { at: number; settings: string }>());
+    const inFlightRef = useRef(new Map<number, AbortController>());
+
+    const commit = (next: Record<number, FrameProbeState>) => {
+        probesRef.current = next;
+        setProbes(next);
+    };
+
+    const update = (id: number, url: string, change: (state: FrameProbeState) => FrameProbeState) => {
+        const current = probesRef.current[id];
+        // The frame stopped probing or moved to another URL meanwhile
+        if (!current || current.url !== url) return null;
+        const next = change(current);
+        commit({ ...probesRef.current, [id]: next });
+        return { current, next };
+    };
+
+    const runProbe = (target: ProbeTarget) => {
+        if (inFlightRef.current.has(target.id)) return;
+        const controller = new AbortController();
+        inFlightRef.current.set(target.id, controller);
+        dueRef.current.set(target.id, { at: Date.now() + target.probe.interval, settings: getSettingsKey(target) });
+        update(target.id, target.url, s => ({ ...s, pending: true }));
+
+        requestProbe(target.url, Math.min(target.probe.interval, PROBE_TIMEOUT), controller.signal)
+            .then(result => {
+                const { health, reason } = getProbeHealth(result, target.probe.expectedStatus);
+                const sample = { at: result.checkedAt, health, status: result.status, latencyMs: result.latencyMs };
+                const changed = update(target.id, target.url, s => ({
+                    ...s, result, health, reason, pending: false, samples: addProbeSample(s.samples, sample),
+                }));
+                if (changed && changed.current.health !== 'unknown' && changed.current.health !== health) {
+                    onHealthChangeRef.current(target.id, changed.current, changed.next);
+                }
+            })
+            .catch(err => {
+                if (controller.signal.aborted) return;
+                // The probe couldn't run (e.g. no dev server), which says nothing about the target
+                update(target.id, target.url, s => ({
+                    ...s, health: 'unknown', pending: false, reason: err instanceof Error ? err.message : 'Probe failed',
+                }));
+            })
+            .finally(() => {
+                if (inFlightRef.current.get(target.id) === controller) inFlightRef.current.delete(target.id);
+            });
+    };
+
+    const runDueProbes = () => {
+        const now = Date.now();
+        targetsRef.current.forEach(t => {
+            if ((dueRef.current.get(t.id)?.at ?? 0) <= now) runProbe(t);
+        });
+    };
+
+    const stopProbing = (id: number) => {
+        inFlightRef.current.get(id)?.abort();
+        inFlightRef.current.delete(id);
+        dueRef.current.delete(id);
+    };
+
+    // Start and stop probing as frames are configured, and probe straight away when a
+    // frame's URL, interval or expected status changes
+    const targetsKey = targets.map(t => `${t.id} ${t.url} ${getSettingsKey(t)}`).join('\n');
+    useEffect(() => {
+        const next = { ...probesRef.current };
+        let changed = false;
+        Object.keys(next).map(Number).forEach(id => {
+            const target = targets.find(t => t.id === id);
+            if (target && target.url === next[id].url) return;
+            stopProbing(id);
+            delete next[id];
+            changed = true;
+        });
+        targets.forEach(t => {
+            if (!next[t.id]) {
+                next[t.id] = createProbeState(t.url);
+                changed = true;
+            }
+            const due = dueRef.current.get(t.id);
+            if (due && due.settings !== getSettingsKey(t)) stopProbing(t.id);
+        });
+        if (changed) commit(next);
+        runDueProbes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [targetsKey]);
+
+    const hasTargets = targets.length > 0;
+    useEffect(() => {
+        if (!hasTargets) return;
+        const interval = setInterval(runDueProbes, 1000);
+        return () => clearInterval(interval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [hasTargets]);
+
+    useEffect(() => () => inFlightRef.current.forEach(controller => controller.abort()), []);
+
+    // Probe a frame now instead of waiting for its next turn
+    const probeNow = (id: number) => {
+        const target = targetsRef.current.find(t => t.id === id);
+        if (!target) return;
+        dueRef.current.delete(id);
+        runProbe(target);
+    };
+
+    return { probes, probeNow };
+};
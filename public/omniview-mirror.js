@@ -0,0 +1,92 @@
+// OmniView mirror script: lets a page embedded in an OmniView grid take part in
+// scroll and navigation mirroring. Include it on the page under test:
+//
+//   <script src="https://<your-omniview-host>/omniview-mirror.js"></script>
+//
+// Single-page apps can route mirrored navigations themselves by calling
+// preventDefault() on the cancelable "omniview:navigate" window event
+// (event.detail.path); otherwise the page is navigated with location.assign().
+// The protocol is documented in utils/mirror.ts.
+(function () {
+    if (window.parent === window || window.__omniviewMirror) return;
+    window.__omniviewMirror = true;
+
+    var PROTOCOL = 'mirror';
+    var VERSION = 1;
+    // Scroll events caused by a mirrored 'scroll-to' are not reported back
+    var ECHO_MS = 150;
+    var suppressUntil = 0;
+    var lastHref = location.href;
+    var scrollQueued = false;
+
+    function post(message) {
+        message.omniview = PROTOCOL;
+        message.version = VERSION;
+        window.parent.postMessage(message, '*');
+    }
+
+    function relativeScroll() {
+        var doc = document.documentElement;
+        var maxX = doc.scrollWidth - window.innerWidth;
+        var maxY = doc.scrollHeight - window.innerHeight;
+        return {
+            x: maxX > 0 ? Math.min(1, window.scrollX / maxX) : 0,
+            y: maxY > 0 ? Math.min(1, window.scrollY / maxY) : 0
+        };
+    }
+
+    function hello() {
+        post({ type: 'hello', url: location.href });
+    }
+
+    function checkUrl() {
+        if (location.href === lastHref) return;
+        lastHref = location.href;
+        post({ type: 'navigate', url: lastHref });
+    }
+
+    window.addEventListener('message', function (e) {
+        var data = e.data;
+        if (e.source !== window.parent || !data || data.omniview !== PROTOCOL || data.version !== VERSION) return;
+
+        if (data.type === 'ping') {
+            hello();
+        } else if (data.type === 'scroll-to') {
+            var doc = document.documentElement;
+            suppressUntil = Date.now() + ECHO_MS;
+            window.scrollTo(data.x * (doc.scrollWidth - window.innerWidth), data.y * (doc.scrollHeight - window.innerHeight));
+        } else if (data.type === 'navigate-to' && typeof data.path === 'string') {
+            var target = new URL(data.path, location.origin);
+            if (target.href === location.href) return;
+            var event = new CustomEvent('omniview:navigate', { detail: { path: data.path }, cancelable: true });
+            if (window.dispatchEvent(event)) location.assign(target.href);
+        }
+    });
+
+    window.addEventListener('scroll', function () {
+        if (scrollQueued || Date.now() < suppressUntil) return;
+        scrollQueued = true;
+        requestAnimationFrame(function () {
+            scrollQueued = false;
+            var pos = relativeScroll();
+            post({ type: 'scroll', x: pos.x, y: pos.y });
+        });
+    }, { passive: true });
+
+    ['pushState', 'replaceState'].forEach(function (method) {
+        var original = history[method];
+        history[method] = function () {
+            var result = original.apply(this, arguments);
+            checkUrl();
+            return result;
+        };
+    });
+    window.addEventListener('popstate', checkUrl);
+    window.addEventListener('hashchange', checkUrl);
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', hello);
+    } else {
+        hello();
+    }
+})();
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import { MAX_PROBE_REDIRECTS, createProbeHandler, isPrivateAddress, probeUrl } from './uptimeProbe';
+
+// Stub target server: each path answers with a canned response
+const stub = http.createServer((req, res) => {
+    const path = req.url ?? '/';
+    if (path === '/ok') {
+        res.end('fine');
+    } else if (path === '/down') {
+        res.statusCode = 503;
+        res.end();
+    } else if (path === '/moved') {
+        res.writeHead(301, { location: '/ok' });
+        res.end();
+    } else if (path === '/metadata') {
+        res.writeHead(302, { location: 'http://169.254.169.254/latest/meta-data/' });
+        res.end();
+    } else if (path === '/localhost') {
+        res.writeHead(302, { location: `http://localhost:${(stub.address() as AddressInfo).port}/ok` });
+        res.end();
+    } else if (path === '/loop') {
+        res.writeHead(302, { location: '/loop' });
+        res.end();
+    } else if (path !== '/hang') {
+        res.statusCode = 404;
+        res.end();
+    }
+    // '/hang' never answers
+});
+
+// The stub runs on loopback, so it has to be allowed explicitly
+const allowStub = () => ({ allowPrivateHosts: [new URL(stubUrl).host] });
+
+// The probe endpoint on its own server, as Vite would mount it
+const endpoint = http.createServer((req, res) => createProbeHandler(allowStub())(req, res));
+
+const listen = (server: Server) => new Promise<string>(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+});
+
+let stubUrl = '';
+let endpointUrl = '';
+
+beforeAll(async () => {
+    stubUrl = await listen(stub);
+    endpointUrl = await listen(endpoint);
+});
+
+afterAll(() => {
+    stub.closeAllConnections();
+    stub.close();
+    endpoint.close();
+});
+
+describe('probeUrl', () => {
+    it('reports the status and latency of a healthy page', async () => {
+        const result = await probeUrl(`${stubUrl}/ok`, undefined, allowStub());
+        expect(result.status).toBe(200);
+        expect(result.error).toBeNull();
+        expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+        expect(result.redirects).toEqual([]);
+        expect(result.tls).toBeNull();
+    });
+
+    it('reports error statuses as they are', async () => {
+        const result = await probeUrl(`${stubUrl}/down`, undefined, allowStub());
+        expect(result.status).toBe(503);
+        expect(result.error).toBeNull();
+    });
+
+    it('follows redirects and records each hop', async () => {
+        const result = await probeUrl(`${stubUrl}/moved`, undefined, allowStub());
+        expect(result.status).toBe(200);
+        expect(result.finalUrl).toBe(`${stubUrl}/ok`);
+        expect(result.redirects).toEqual([{ status: 301, location: `${stubUrl}/ok` }]);
+    });
+
+    it('gives up on redirect loops', async () => {
+        const result = await probeUrl(`${stubUrl}/loop`, undefined, allowStub());
+        expect(result.redirects).toHaveLength(MAX_PROBE_REDIRECTS);
+        expect(result.error).toMatch(/redirects/);
+    });
+
+    it('times out servers that never answer', async () => {
+        const result = await probeUrl(`${stubUrl}/hang`, 200, allowStub());
+        expect(result.status).toBeNull();
+        expect(result.error).toMatch(/No response/);
+    });
+
+    it('reports unreachable servers and unsupported URLs', async () => {
+        const closed = http.createServer();
+        const closedUrl = await listen(closed);
+        await new Promise(resolve => closed.close(resolve));
+
+        expect((await probeUrl(closedUrl, undefined, { allowPrivateHosts: ['*'] })).error).toBe('Connection refused');
+        expect((await probeUrl('ftp://example.com')).error).toMatch(/Only http and https/);
+        expect((await probeUrl('not a url')).error).toBe('Not a valid URL');
+    });
+});
+
+describe('private targets', () => {
+    it('recognizes loopback, private and link-local addresses', () => {
+        ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', '[::1]', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1']
+            .forEach(ip => expect(isPrivateAddress(ip), ip).toBe(true));
+        ['93.184.216.34', '2606:2800:220:1::1', 'example.com']
+            .forEach(ip => expect(isPrivateAddress(ip), ip).toBe(false));
+    });
+
+    it('refuses them unless the host is allowed', async () => {
+        const result = await probeUrl(`${stubUrl}/ok`);
+        expect(result.status).toBeNull();
+        expect(result.error).toMatch(/private or local address/);
+        expect((await probeUrl('http://169.254.169.254/latest/meta-data/')).error).toMatch(/private or local address/);
+    });
+
+    it('checks every redirect hop', async () => {
+        const result = await probeUrl(`${stubUrl}/metadata`, undefined, allowStub());
+        expect(result.redirects).toEqual([{ status: 302, location: 'http://169.254.169.254/latest/meta-data/' }]);
+        expect(result.status).toBeNull();
+        expect(result.error).toMatch(/169\.254\.169\.254 is a private or local address/);
+    });
+
+    it('checks the addresses hostnames resolve to', async () => {
+        const result = await probeUrl(`${stubUrl}/localhost`, undefined, allowStub());
+        expect(result.redirects).toHaveLength(1);
+        expect(result.error).toMatch(/localhost is a private or local address/);
+    });
+});
+
+// What a browser sends for a fetch from the app's own page
+const SAME_ORIGIN = { 'sec-fetch-site': 'same-origin' };
+
+describe('createProbeHandler', () => {
+    it('answers with the probe result as JSON', async () => {
+        const response = await fetch(`${endpointUrl}/?url=${encodeURIComponent(`${stubUrl}/down`)}`, { headers: SAME_ORIGIN });
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toBe('application/json');
+        expect(await response.json()).toMatchObject({ url: `${stubUrl}/down`, status: 503, error: null });
+    });
+
+    it('rejects requests without a URL', async () => {
+        const response = await fetch(`${endpointUrl}/`, { headers: SAME_ORIGIN });
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toMatch(/Missing/);
+    });
+
+    it('rejects requests from other sites and non-browser clients', async () => {
+        const probe = `${endpointUrl}/?url=${encodeURIComponent(`${stubUrl}/ok`)}`;
+        const statuses = await Promise.all([
+            {},
+            { 'sec-fetch-site': 'cross-site' },
+            { 'sec-fetch-site': 'same-site' },
+            { ...SAME_ORIGIN, origin: 'http://evil.example' },
+        ].map(headers => fetch(probe, { headers }).then(r => r.status)));
+        expect(statuses).toEqual([403, 403, 403, 403]);
+
+        const own = await fetch(probe, { headers: { ...SAME_ORIGIN, origin: endpointUrl } });
+        expect(own.status).toBe(200);
+        expect((await own.json()).status).toBe(200);
+    });
+});
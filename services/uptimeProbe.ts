@@ -0,0 +1,221 @@
+// Uptime probe endpoint for the Vite dev and preview servers. GET PROBE_ENDPOINT?url=…
+// requests the URL from Node (so CORS and frame headers don't matter), follows redirects
+// by hand to record them, and answers with a ProbeResult as JSON. Only response headers
+// are read; bodies are discarded.
+//
+// The dev server listens on every interface, so the endpoint only answers the app's own
+// pages, and refuses loopback, private and link-local targets (checked on every hop, after
+// DNS resolution) unless those hosts are allowed with OMNIVIEW_PROBE_PRIVATE_HOSTS.
+import http, { IncomingMessage, ServerResponse } from 'http';
+import https from 'https';
+import dns from 'dns';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { TLSSocket } from 'tls';
+import type { Plugin } from 'vite';
+import { PROBE_ENDPOINT, MAX_PROBE_TIMEOUT, ProbeRedirect, ProbeResult, ProbeTls } from '../utils/uptime';
+
+export const MAX_PROBE_REDIRECTS = 5;
+export const DEFAULT_PROBE_TIMEOUT = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ProbeOptions {
+    // Loopback, private and link-local hosts that may be probed anyway, as "host" or
+    // "host:port"; "*" allows them all
+    allowPrivateHosts?: string[];
+}
+
+// Addresses that reach the dev machine itself or its networks rather than the internet
+const PRIVATE_ADDRESSES = new BlockList();
+[
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([net, prefix]) => PRIVATE_ADDRESSES.addSubnet(net as string, prefix as number, 'ipv4'));
+[
+    ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([net, prefix]) => PRIVATE_ADDRESSES.addSubnet(net as string, prefix as number, 'ipv6'));
+
+export const isPrivateAddress = (address: string) => {
+    const ip = address.replace(/^\[|\]$/g, '');
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+    if (mapped) return PRIVATE_ADDRESSES.check(mapped[1], 'ipv4');
+    const version = isIP(ip);
+    return version !== 0 && PRIVATE_ADDRESSES.check(ip, version === 4 ? 'ipv4' : 'ipv6');
+};
+
+const privateTargetError = (host: string) => new Error(`${host} is a private or local address, which isn't probed`);
+
+// Resolves like dns.lookup, but fails for private addresses so a hostname can't point the
+// probe at the dev machine's network (DNS rebinding included: the checked address is the one used)
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, options, (err, address, family) => {
+        if (err) {
+            callback(err, address, family);
+            return;
+        }
+        const addresses = Array.isArray(address) ? address.map(a => a.address) : [address];
+        if (addresses.some(isPrivateAddress)) {
+            callback(privateTargetError(hostname), '', 0);
+            return;
+        }
+        callback(null, address, family);
+    });
+};
+
+const isAllowedPrivateHost = (url: URL, allowed: string[]) =>
+    allowed.includes('*') || allowed.includes(url.host) || allowed.includes(url.hostname);
+
+interface ProbeResponse {
+    status: number;
+    location: string | null;
+    tls: ProbeTls | null;
+}
+
+const getTlsDetails = (socket: TLSSocket): ProbeTls => {
+    const cert = socket.getPeerCertificate();
+    const validTo = cert?.valid_to ? Date.parse(cert.valid_to) : NaN;
+    return {
+        protocol: socket.getProtocol(),
+        authorized: socket.authorized,
+        error: socket.authorizationError ? String(socket.authorizationError) : null,
+        issuer: [cert?.issuer?.O, cert?.issuer?.CN].flat().find(Boolean) ?? null,
+        validTo: Number.isNaN(validTo) ? null : new Date(validTo).toISOString(),
+        daysRemaining: Number.isNaN(validTo) ? null : Math.floor((validTo - Date.now()) / DAY_MS),
+    };
+};
+
+// One GET, resolved as soon as the response headers arrive
+const requestHeaders = (url: URL, timeoutMs: number, allowPrivate: boolean) => new Promise<ProbeResponse>((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.request(url, {
+        method: 'GET',
+        agent: false,
+        lookup: allowPrivate ? undefined : publicOnlyLookup,
+        // Untrusted certificates are reported, not refused
+        rejectUnauthorized: false,
+        headers: { 'user-agent': 'OmniView uptime probe', accept: '*/*' },
+    }, res => {
+        const location = res.headers.location;
+        resolve({
+            status: res.statusCode ?? 0,
+            location: typeof location === 'string' ? location : null,
+            tls: res.socket instanceof TLSSocket ? getTlsDetails(res.socket) : null,
+        });
+        res.destroy();
+    });
+    req.setTimeout(timeoutMs, () => req.destroy(new Error(`No response after ${timeoutMs / 1000}s`)));
+    req.on('error', reject);
+    req.end();
+});
+
+const describeError = (err: unknown) => {
+    const code = (err as NodeJS.ErrnoException)?.code;
+    if (code === 'ENOTFOUND') return 'Host not found';
+    if (code === 'ECONNREFUSED') return 'Connection refused';
+    if (code === 'ECONNRESET') return 'Connection reset';
+    return err instanceof Error ? err.message : 'Request failed';
+};
+
+// Probe `target`, following up to MAX_PROBE_REDIRECTS redirects within `timeoutMs` overall.
+// Never rejects: an unreachable target is reported through `error`.
+export const probeUrl = async (target: string, timeoutMs = DEFAULT_PROBE_TIMEOUT, { allowPrivateHosts = [] }: ProbeOptions = {}): Promise<ProbeResult> => {
+    const startedAt = performance.now();
+    const redirects: ProbeRedirect[] = [];
+    let current: URL | null = null;
+    const result = (fields: Partial<ProbeResult>): ProbeResult => ({
+        url: target,
+        checkedAt: Date.now(),
+        status: null,
+        latencyMs: null,
+        finalUrl: current?.href ?? target,
+        redirects,
+        tls: null,
+        error: null,
+        ...fields,
+    });
+
+    try {
+        current = new URL(target);
+    } catch {
+        return result({ error: 'Not a valid URL' });
+    }
+
+    try {
+        for (;;) {
+            if (current.protocol !== 'http:' && current.protocol !== 'https:') {
+                return result({ error: `Only http and https URLs can be probed (got ${current.protocol})` });
+            }
+            const remaining = timeoutMs - (performance.now() - startedAt);
+            if (remaining <= 0) throw new Error(`No response after ${timeoutMs / 1000}s`);
+
+            // IP literals skip the DNS lookup, so they're checked here
+            const allowPrivate = isAllowedPrivateHost(current, allowPrivateHosts);
+            if (!allowPrivate && isPrivateAddress(current.hostname)) throw privateTargetError(current.hostname);
+
+            const response = await requestHeaders(current, remaining, allowPrivate);
+            if (response.status >= 300 && response.status < 400 && response.location) {
+                if (redirects.length >= MAX_PROBE_REDIRECTS) {
+                    return result({ status: response.status, error: `More than ${MAX_PROBE_REDIRECTS} redirects` });
+                }
+                current = new URL(response.location, current);
+                redirects.push({ status: response.status, location: current.href });
+                continue;
+            }
+            return result({ status: response.status, latencyMs: performance.now() - startedAt, tls: response.tls });
+        }
+    } catch (err) {
+        return result({ error: describeError(err) });
+    }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader('content-type', 'application/json');
+    res.setHeader('cache-control', 'no-store');
+    res.end(JSON.stringify(body));
+};
+
+// Browsers mark every request with Sec-Fetch-Site, and add Origin to cross-origin ones: only
+// fetches from the app's own pages get through, not other sites, their images or forms
+const isSameOriginRequest = (req: IncomingMessage) => {
+    if (req.headers['sec-fetch-site'] !== 'same-origin') return false;
+    const origin = req.headers.origin;
+    if (!origin) return true;
+    try {
+        return new URL(origin).host === req.headers.host;
+    } catch {
+        return false;
+    }
+};
+
+// Connect handler, mounted at PROBE_ENDPOINT (so req.url is just the query)
+export const createProbeHandler = (options: ProbeOptions = {}) => (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET') {
+        sendJson(res, 405, { error: 'Use GET' });
+        return;
+    }
+    if (!isSameOriginRequest(req)) {
+        sendJson(res, 403, { error: 'Probes can only be requested by OmniView itself' });
+        return;
+    }
+    const params = new URL(req.url ?? '', 'http://localhost').searchParams;
+    const target = params.get('url');
+    if (!target) {
+        sendJson(res, 400, { error: 'Missing ?url= to probe' });
+        return;
+    }
+    const timeout = Number(params.get('timeout'));
+    const timeoutMs = timeout > 0 ? Math.min(timeout, MAX_PROBE_TIMEOUT) : DEFAULT_PROBE_TIMEOUT;
+    probeUrl(target, timeoutMs, options).then(result => sendJson(res, 200, result));
+};
+
+// The probe endpoint only exists while Vite serves the app (dev or preview), not in static builds
+export const uptimeProbe = (options: ProbeOptions = {}): Plugin => ({
+    name: 'omniview-uptime-probe',
+    configureServer(server) {
+        server.middlewares.use(PROBE_ENDPOINT, createProbeHandler(options));
+    },
+    configurePreviewServer(server) {
+        server.middlewares.use(PROBE_ENDPOINT, createProbeHandler(options));
+    },
+});
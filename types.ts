@@ -1,2 +1,113 @@
-// Types removed.
-export {};
+// Shared types for the grid store (utils/gridStore.ts) and the components built on it.
+import { LayoutPreset } from './utils/gridLayout';
+import { FrameDevice, DeviceProfileId } from './utils/devices';
+import { FrameStatus } from './utils/frameLoad';
+import { AutoRefreshState } from './utils/autoRefresh';
+import { FramePolicy } from './utils/framePolicy';
+import { LocalSource } from './utils/localPreview';
+import { FrameReview } from './utils/qaReview';
+import { ProbeSettings, ProbeAlertMode } from './utils/uptime';
+import { UrlMatrix, MatrixEntry } from './utils/urlMatrix';
+
+export interface FrameData {
+    id: number;
+    currentUrl: string;
+    history: string[]; // Every URL this frame was given, oldest first
+    historyIndex: number;
+    key: number;
+    isLocked: boolean;
+    status: FrameStatus;
+    statusDetail: string; // Why a frame is blocked or timed out
+    loadStartedAt: number | null;
+    loadId: string; // Unique per load, across sessions too (Ghost Mode's cache buster)
+    loadTimeMs: number | null; // Time from load start to the iframe's onLoad
+    queuedAt: number | null; // Position in the load queue while 'scheduled'
+    sessionId: string; // Unique ID for this frame's "user"
+    device: FrameDevice;
+    label: string; // URL matrix values this frame was given, if any
+    autoRefresh: AutoRefreshState;
+    policy: FramePolicy; // Sandbox, permissions and referrer policy for this frame's iframe
+    localSource: LocalSource | null; // Local HTML shown instead of currentUrl (not persisted)
+    review: FrameReview; // QA verdict, checklist and notes
+    probe: ProbeSettings; // Uptime probe schedule and expected status codes
+}
+
+// Grid-wide settings changed through the 'updateSettings' action
+export interface GridSettings {
+    scale: number;
+    isSyncing: boolean;
+    loadingDelay: number;
+    loadTimeout: number;
+    maxConcurrent: number;
+    suspendOffscreen: boolean;
+    isMirroring: boolean;
+    matrix: UrlMatrix;
+    probeAlerts: ProbeAlertMode;
+}
+
+// The parts of a frame that undo/redo restores
+export type FrameEdit = Pick<FrameData, 'id' | 'currentUrl' | 'history' | 'historyIndex' | 'isLocked' | 'device' | 'label' | 'policy'>;
+
+// One undo (or redo) step: what the edit changed, as it was before the edit. Only the
+// changed parts are kept, so undoing an edit leaves later unrelated changes alone.
+export interface GridEdit {
+    // What the edit did, e.g. "Lock frame 2", shown on the undo and redo buttons
+    label: string;
+    // Consecutive edits with the same key (e.g. typing a custom size) undo as one step
+    mergeKey: string | null;
+    frames: FrameEdit[];
+    order: number[] | null; // Frame ids in tile order, if the edit reordered tiles
+    layout: LayoutPreset | null; // If the edit changed the layout
+}
+
+export interface GridState extends GridSettings {
+    frames: FrameData[];
+    layout: LayoutPreset;
+    // "Ghost Mode" bundles multiple isolation features
+    ghostMode: boolean;
+    autoRefreshPaused: boolean;
+    // Last load queue position handed out, so queued frames load first-in, first-out
+    queueSeq: number;
+    // Undo and redo stacks; the most recent edit is last
+    past: GridEdit[];
+    future: GridEdit[];
+}
+
+// Timestamps are passed in so the reducer stays pure: `now` is performance.now()
+// (load timing), `wallNow` is Date.now() (auto-refresh deadlines).
+export type GridAction =
+    | { type: 'setFrameCount'; count: number; masterUrl: string }
+    | { type: 'syncUrl'; url: string }
+    | { type: 'updateSettings'; settings: Partial<GridSettings> }
+    | { type: 'setGhostMode'; enabled: boolean }
+    | { type: 'setLayout'; layout: LayoutPreset }
+    | { type: 'navigate'; id: number; url: string }
+    | { type: 'stepHistory'; id: number; delta: -1 | 1 }
+    | { type: 'toggleLock'; id: number }
+    | { type: 'setLocked'; id: number; locked: boolean }
+    | { type: 'setAllLocked'; locked: boolean }
+    | { type: 'refresh'; id: number }
+    | { type: 'refreshAll' }
+    | { type: 'startLoad'; id: number; now: number; wallNow: number }
+    | { type: 'frameLoaded'; id: number; key: number; blockedReason: string | null; now: number }
+    | { type: 'loadTimedOut'; id: number; key: number }
+    | { type: 'syncOffscreen'; offscreenIds: number[] }
+    | { type: 'autoRefreshTick'; wallNow: number }
+    | { type: 'setRefreshInterval'; id: number; interval: number; wallNow: number }
+    | { type: 'toggleFrameAutoRefresh'; id: number; wallNow: number }
+    | { type: 'toggleGridAutoRefresh'; wallNow: number }
+    | { type: 'setDeviceProfile'; id: number; profileId: DeviceProfileId }
+    | { type: 'toggleOrientation'; id: number }
+    // Custom sizes are edited freely and only clamped once the input is committed
+    | { type: 'setCustomSize'; id: number; dimension: 'width' | 'height'; value: number; commit: boolean }
+    | { type: 'spreadDevices' }
+    | { type: 'applyMatrix'; entries: MatrixEntry[] }
+    | { type: 'moveFrame'; id: number; to: number }
+    | { type: 'setLocalSource'; id: number; source: LocalSource | null }
+    | { type: 'setPolicy'; id: number; policy: FramePolicy }
+    | { type: 'setReview'; id: number; review: FrameReview }
+    | { type: 'setProbe'; id: number; probe: ProbeSettings }
+    | { type: 'undo' }
+    | { type: 'redo' };
+
+export type GridActionType = GridAction['type'];
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+    ACTIVITY_LOG_CAPACITY,
+    MAX_LOAD_SAMPLES,
+    recordActivity,
+    getActivity,
+    getDroppedActivityCount,
+    clearActivity,
+    subscribeActivity,
+    getLoadStats,
+    toActivityCsv,
+} from './activityLog';
+
+const recordLoad = (frameId: number, loadTimeMs: number, tile = frameId + 1) =>
+    recordActivity({ type: 'load', message: 'Loaded', frameId, tile, loadTimeMs });
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2026, 0, 2, 3, 4, 5));
+    clearActivity();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('activity ring buffer', () => {
+    it('keeps entries oldest first with increasing sequence numbers', () => {
+        recordActivity({ type: 'grid', message: 'Reload all' });
+        recordActivity({ type: 'lock', message: 'Locked', frameId: 2, tile: 3 });
+        expect(getActivity()).toEqual([
+            { seq: 0, at: Date.now(), type: 'grid', frameId: null, tile: null, message: 'Reload all', loadTimeMs: null },
+            { seq: 1, at: Date.now(), type: 'lock', frameId: 2, tile: 3, message: 'Locked', loadTimeMs: null },
+        ]);
+    });
+
+    it('drops the oldest entries once full', () => {
+        for (let i = 0; i < ACTIVITY_LOG_CAPACITY + 3; i++) recordActivity({ type: 'grid', message: `#${i}` });
+        const entries = getActivity();
+        expect(entries).toHaveLength(ACTIVITY_LOG_CAPACITY);
+        expect(entries[0].seq).toBe(3);
+        expect(entries[entries.length - 1].message).toBe(`#${ACTIVITY_LOG_CAPACITY + 2}`);
+        expect(getDroppedActivityCount()).toBe(3);
+    });
+
+    it('reuses the snapshot until something is recorded and notifies subscribers', () => {
+        const listener = vi.fn();
+        const unsubscribe = subscribeActivity(listener);
+        recordActivity({ type: 'grid', message: 'a' });
+        const first = getActivity();
+        expect(getActivity()).toBe(first);
+        recordActivity({ type: 'grid', message: 'b' });
+        expect(getActivity()).not.toBe(first);
+        expect(listener).toHaveBeenCalledTimes(2);
+        unsubscribe();
+        clearActivity();
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(getActivity()).toEqual([]);
+    });
+});
+
+describe('getLoadStats', () => {
+    it('gives min, median and max per frame, ordered by tile', () => {
+        recordLoad(4, 300, 1);
+        [200, 100, 400, 300].forEach(ms => recordLoad(1, ms, 2));
+        recordActivity({ type: 'load', message: 'Loaded (no timing)', frameId: 1, tile: 2 });
+        expect(getLoadStats()).toEqual([
+            { frameId: 4, tile: 1, count: 1, minMs: 300, medianMs: 300, maxMs: 300 },
+            { frameId: 1, tile: 2, count: 4, minMs: 100, medianMs: 250, maxMs: 400 },
+        ]);
+    });
+
+    it('outlasts the buffer but only keeps the latest samples per frame', () => {
+        recordLoad(0, 5);
+        for (let i = 0; i < MAX_LOAD_SAMPLES; i++) recordLoad(0, 1000);
+        const [stats] = getLoadStats();
+        expect(stats.count).toBe(MAX_LOAD_SAMPLES);
+        expect(stats.minMs).toBe(1000);
+        expect(getActivity()).toHaveLength(ACTIVITY_LOG_CAPACITY);
+    });
+});
+
+describe('toActivityCsv', () => {
+    it('escapes quotes, commas and newlines and rounds load times', () => {
+        recordActivity({ type: 'navigate', message: 'Went to "x.com", then\nback', frameId: 0, tile: 1 });
+        recordLoad(0, 123.6);
+        expect(toActivityCsv(getActivity())).toBe([
+            'seq,time,type,frameId,tile,message,loadTimeMs',
+            '0,2026-01-02T03:04:05.000Z,navigate,0,1,"Went to ""x.com"", then\nback",',
+            '1,2026-01-02T03:04:05.000Z,load,0,1,Loaded,124',
+            '',
+        ].join('\n'));
+    });
+});
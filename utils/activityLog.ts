@@ -0,0 +1,167 @@
+// Session activity log: a central bus that frame and grid actions are recorded to, kept
+// in a bounded ring buffer (oldest entries are dropped first) for the timeline panel
+// and CSV/JSON export. Recent load times are also kept per frame, outside the buffer, for statistics.
+import { formatLoadTime } from './frameLoad';
+
+export type ActivityType =
+    | 'navigate'
+    | 'preview'
+    | 'schedule'
+    | 'load'
+    | 'error'
+    | 'suspend'
+    | 'lock'
+    | 'frame'
+    | 'grid'
+    | 'uptime'
+    | 'remote';
+
+export const ACTIVITY_TYPES: { id: ActivityType; label: string }[] = [
+    { id: 'navigate', label: 'URL changes' },
+    { id: 'preview', label: 'Local previews' },
+    { id: 'schedule', label: 'Scheduling' },
+    { id: 'load', label: 'Loads' },
+    { id: 'error', label: 'Timeouts & blocks' },
+    { id: 'suspend', label: 'Suspensions' },
+    { id: 'lock', label: 'Lock toggles' },
+    { id: 'frame', label: 'Frame settings' },
+    { id: 'grid', label: 'Grid actions' },
+    { id: 'uptime', label: 'Uptime changes' },
+    { id: 'remote', label: 'Remote commands' },
+];
+
+export interface ActivityEntry {
+    // Increases by one per entry, so gaps show where the buffer dropped entries
+    seq: number;
+    at: number;
+    type: ActivityType;
+    // Grid-wide entries have no frame
+    frameId: number | null;
+    // Tile number (#1 = first tile) at the time of the entry
+    tile: number | null;
+    message: string;
+    loadTimeMs: number | null;
+}
+
+export type ActivityInput = Pick<ActivityEntry, 'type' | 'message'> & Partial<Pick<ActivityEntry, 'frameId' | 'tile' | 'loadTimeMs'>>;
+
+export interface LoadStats {
+    frameId: number;
+    tile: number | null;
+    count: number;
+    minMs: number;
+    medianMs: number;
+    maxMs: number;
+}
+
+export const ACTIVITY_LOG_CAPACITY = 500;
+// Load samples kept per frame for statistics
+export const MAX_LOAD_SAMPLES = 1000;
+
+const ring: (ActivityEntry | undefined)[] = new Array(ACTIVITY_LOG_CAPACITY);
+let recorded = 0;
+let snapshot: ActivityEntry[] | null = [];
+const loadSamples = new Map<number, { tile: number | null; times: number[] }>();
+const listeners = new Set<() => void>();
+
+const notify = () => {
+    snapshot = null;
+    listeners.forEach(listener => listener());
+};
+
+export const recordActivity = (input: ActivityInput) => {
+    const entry: ActivityEntry = {
+        seq: recorded,
+        at: Date.now(),
+        type: input.type,
+        frameId: input.frameId ?? null,
+        tile: input.tile ?? null,
+        message: input.message,
+        loadTimeMs: input.loadTimeMs ?? null,
+    };
+    ring[recorded % ACTIVITY_LOG_CAPACITY] = entry;
+    recorded++;
+
+    if (entry.type === 'load' && entry.frameId !== null && entry.loadTimeMs !== null) {
+        const samples = loadSamples.get(entry.frameId) ?? { tile: entry.tile, times: [] };
+        samples.tile = entry.tile;
+        samples.times = [...samples.times, entry.loadTimeMs].slice(-MAX_LOAD_SAMPLES);
+        loadSamples.set(entry.frameId, samples);
+    }
+    notify();
+};
+
+// Entries still in the buffer, oldest first. The array is reused until the next change.
+export const getActivity = (): ActivityEntry[] => {
+    if (!snapshot) {
+        const first = Math.max(0, recorded - ACTIVITY_LOG_CAPACITY);
+        snapshot = [];
+        for (let i = first; i < recorded; i++) snapshot.push(ring[i % ACTIVITY_LOG_CAPACITY] as ActivityEntry);
+    }
+    return snapshot;
+};
+
+// Entries recorded this session that no longer fit in the buffer
+export const getDroppedActivityCount = () => Math.max(0, recorded - ACTIVITY_LOG_CAPACITY);
+
+export const clearActivity = () => {
+    ring.fill(undefined);
+    recorded = 0;
+    loadSamples.clear();
+    notify();
+};
+
+export const subscribeActivity = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+const median = (sorted: number[]) => {
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Min, median and max load time per frame over its last MAX_LOAD_SAMPLES loads this session,
+// including loads whose entries have left the buffer
+export const getLoadStats = (): LoadStats[] =>
+    [...loadSamples].map(([frameId, { tile, times }]) => {
+        const sorted = [...times].sort((a, b) => a - b);
+        return {
+            frameId,
+            tile,
+            count: sorted.length,
+            minMs: sorted[0],
+            medianMs: median(sorted),
+            maxMs: sorted[sorted.length - 1],
+        };
+    }).sort((a, b) => (a.tile ?? Infinity) - (b.tile ?? Infinity) || a.frameId - b.frameId);
+
+const csvCell = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toActivityCsv = (entries: ActivityEntry[]) => [
+    'seq,time,type,frameId,tile,message,loadTimeMs',
+    ...entries.map(e => [
+        e.seq,
+        new Date(e.at).toISOString(),
+        e.type,
+        e.frameId,
+        e.tile,
+        e.message,
+        e.loadTimeMs === null ? null : Math.round(e.loadTimeMs),
+    ].map(csvCell).join(',')),
+].join('\n') + '\n';
+
+export const toActivityJson = (entries: ActivityEntry[]) => JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    dropped: getDroppedActivityCount(),
+    entries: entries.map(e => ({ ...e, time: new Date(e.at).toISOString() })),
+    loadStats: getLoadStats(),
+}, null, 2);
+
+export const formatLoadStats = (stats: LoadStats) =>
+    `${formatLoadTime(stats.minMs)} / ${formatLoadTime(stats.medianMs)} / ${formatLoadTime(stats.maxMs)}`;
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_AUTO_REFRESH,
+    createAutoRefresh,
+    restartTimer,
+    freezeTimer,
+    thawTimer,
+    getRemaining,
+    isDue,
+    formatInterval,
+    formatCountdown,
+} from './autoRefresh';
+
+const running = createAutoRefresh(60000, false, 1000);
+
+describe('restartTimer', () => {
+    it('starts a full countdown from now', () => {
+        expect(restartTimer(running, 5000, false)).toEqual({ ...running, dueAt: 65000, remaining: null });
+    });
+
+    it('holds a full interval while the frame or the grid is paused', () => {
+        expect(restartTimer({ ...running, paused: true }, 5000, false)).toMatchObject({ dueAt: null, remaining: 60000 });
+        expect(restartTimer(running, 5000, true)).toMatchObject({ dueAt: null, remaining: 60000 });
+    });
+
+    it('clears the countdown when auto-refresh is off', () => {
+        expect(restartTimer({ ...running, interval: 0 }, 5000, false)).toMatchObject({ dueAt: null, remaining: null });
+    });
+});
+
+describe('freezeTimer and thawTimer', () => {
+    it('keep the time left across a pause', () => {
+        const frozen = freezeTimer(running, 21000);
+        expect(frozen).toMatchObject({ dueAt: null, remaining: 40000 });
+        expect(getRemaining(frozen, 99999)).toBe(40000);
+        expect(thawTimer(frozen, 100000)).toMatchObject({ dueAt: 140000, remaining: null });
+    });
+
+    it('freeze an overdue timer at zero', () => {
+        expect(freezeTimer(running, 90000).remaining).toBe(0);
+    });
+
+    it('leave timers that are already frozen, running or off alone', () => {
+        const frozen = freezeTimer(running, 21000);
+        expect(freezeTimer(frozen, 30000)).toBe(frozen);
+        expect(thawTimer(running, 30000)).toBe(running);
+        expect(thawTimer(DEFAULT_AUTO_REFRESH, 30000)).toBe(DEFAULT_AUTO_REFRESH);
+    });
+
+    it('thaw a paused-from-the-start timer with a full interval', () => {
+        expect(thawTimer(createAutoRefresh(30000, true, 0), 500)).toMatchObject({ dueAt: 30500, remaining: null });
+    });
+});
+
+describe('isDue', () => {
+    it('fires once the deadline is reached, never while frozen or off', () => {
+        expect(isDue(running, 60999)).toBe(false);
+        expect(isDue(running, 61000)).toBe(true);
+        expect(isDue(freezeTimer(running, 1000), 999999)).toBe(false);
+        expect(isDue(DEFAULT_AUTO_REFRESH, 999999)).toBe(false);
+    });
+});
+
+describe('formatting', () => {
+    it('formats intervals and countdowns', () => {
+        expect(formatInterval(0)).toBe('Off');
+        expect(formatInterval(30000)).toBe('30s');
+        expect(formatInterval(300000)).toBe('5m');
+        expect(formatInterval(90000)).toBe('1m 30s');
+        expect(formatCountdown(60000)).toBe('1:00');
+        expect(formatCountdown(4001)).toBe('0:05');
+    });
+});
@@ -0,0 +1,57 @@
+// Per-frame auto-refresh timers. Deadlines are wall-clock based, so a timer that
+// falls due while the tab is hidden fires as soon as the tab is visible again.
+
+export interface AutoRefreshState {
+    interval: number; // ms, 0 = off
+    dueAt: number | null; // Date.now() deadline while running
+    remaining: number | null; // Time left, captured while paused
+    paused: boolean; // Paused for this frame specifically
+}
+
+export const REFRESH_INTERVAL_PRESETS = [0, 30000, 60000, 300000, 900000];
+
+export const MIN_REFRESH_INTERVAL = 5000;
+
+export const DEFAULT_AUTO_REFRESH: AutoRefreshState = { interval: 0, dueAt: null, remaining: null, paused: false };
+
+export const createAutoRefresh = (interval: number, paused: boolean, now: number): AutoRefreshState =>
+    paused || !interval
+        ? { interval, dueAt: null, remaining: interval || null, paused }
+        : { interval, dueAt: now + interval, remaining: null, paused };
+
+// Start a fresh countdown (after a load or a new interval); stays frozen if paused
+export const restartTimer = (state: AutoRefreshState, now: number, gridPaused: boolean): AutoRefreshState => {
+    if (!state.interval) return { ...state, dueAt: null, remaining: null };
+    if (state.paused || gridPaused) return { ...state, dueAt: null, remaining: state.interval };
+    return { ...state, dueAt: now + state.interval, remaining: null };
+};
+
+export const freezeTimer = (state: AutoRefreshState, now: number): AutoRefreshState => {
+    if (state.dueAt === null) return state;
+    return { ...state, dueAt: null, remaining: Math.max(0, state.dueAt - now) };
+};
+
+export const thawTimer = (state: AutoRefreshState, now: number): AutoRefreshState => {
+    if (!state.interval || state.dueAt !== null) return state;
+    return { ...state, dueAt: now + (state.remaining ?? state.interval), remaining: null };
+};
+
+export const getRemaining = (state: AutoRefreshState, now: number) =>
+    state.dueAt !== null ? Math.max(0, state.dueAt - now) : state.remaining ?? state.interval;
+
+export const isDue = (state: AutoRefreshState, now: number) => state.dueAt !== null && state.dueAt <= now;
+
+export const formatInterval = (ms: number) => {
+    if (!ms) return 'Off';
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds % 60 === 0) return `${seconds / 60}m`;
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export const formatCountdown = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000);
+    const m = Math.floor(seconds / 60);
+    const s = seconds % 60;
+    return `${m}:${s.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,54 @@
+// Command palette: every action the palette can run, and fuzzy matching over their titles.
+import { ShortcutAction } from './shortcuts';
+
+export interface PaletteCommand {
+    id: string;
+    title: string;
+    // Extra words to match on, e.g. "reload" for refresh
+    keywords?: string;
+    // Bindable commands run from their keyboard shortcut too
+    action?: ShortcutAction;
+    run: () => void;
+}
+
+const WORD_START = /[\s:#/.\-(]/;
+
+// How well `query` matches `text` as a subsequence, or null if it doesn't. Consecutive
+// characters and characters at the start of a word score higher, so "rf3" ranks
+// "Refresh frame 3" above "Refresh frame 13". Spaces in the query are ignored.
+export const fuzzyScore = (query: string, text: string): number | null => {
+    const needle = query.toLowerCase().replace(/\s+/g, '');
+    const haystack = text.toLowerCase();
+    if (!needle) return 0;
+
+    let score = 0;
+    let from = 0;
+    let last = -2;
+    for (const char of needle) {
+        const found = haystack.indexOf(char, from);
+        if (found === -1) return null;
+        score += 1;
+        if (found === last + 1) score += 2;
+        if (found === 0 || WORD_START.test(haystack[found - 1])) score += 3;
+        last = found;
+        from = found + 1;
+    }
+    // Shorter titles win ties
+    return score - haystack.length / 100;
+};
+
+// Commands matching `query`, best first
+export const filterCommands = (commands: PaletteCommand[], query: string) => {
+    if (!query.trim()) return commands;
+    return commands
+        .map((command, index) => {
+            const titleScore = fuzzyScore(query, command.title);
+            const keywordScore = command.keywords ? fuzzyScore(query, `${command.title} ${command.keywords}`) : null;
+            // Keyword matches rank below title matches
+            const score = titleScore ?? (keywordScore === null ? null : keywordScore - 10);
+            return { command, index, score };
+        })
+        .filter((m): m is { command: PaletteCommand; index: number; score: number } => m.score !== null)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map(m => m.command);
+};
@@ -0,0 +1,35 @@
+// Compare view: two frames rendered at one shared viewport, side by side or stacked.
+
+export type CompareMode = 'side' | 'overlay' | 'split';
+
+export interface CompareState {
+    leftId: number;
+    rightId: number;
+    mode: CompareMode;
+    // Opacity of the right frame in overlay (onion skin) mode, 0-1
+    opacity: number;
+    // Position of the split divider as a fraction of the width, 0-1
+    split: number;
+}
+
+export const COMPARE_MODES: { id: CompareMode; label: string }[] = [
+    { id: 'side', label: 'Side by Side' },
+    { id: 'overlay', label: 'Onion Skin' },
+    { id: 'split', label: 'Split' },
+];
+
+export const createCompare = (leftId: number, rightId: number): CompareState => ({
+    leftId,
+    rightId,
+    mode: 'side',
+    opacity: 0.5,
+    split: 0.5,
+});
+
+export const swapCompareSides = (state: CompareState): CompareState => ({
+    ...state,
+    leftId: state.rightId,
+    rightId: state.leftId,
+});
+
+export const clampFraction = (value: number) => Math.min(1, Math.max(0, value));
@@ -0,0 +1,49 @@
+// Shareable deep links: the whole grid snapshot, deflated and base64url-encoded
+// into the page hash as #grid=<payload>.
+import { GridSnapshot, readSnapshotPayload, toSnapshotPayload } from './workspaces';
+
+const HASH_PREFIX = '#grid=';
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    // Chunked to stay clear of argument count limits on large payloads
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const encodeSnapshot = async (snapshot: GridSnapshot) => {
+    const json = new TextEncoder().encode(JSON.stringify(toSnapshotPayload(snapshot)));
+    return toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')));
+};
+
+// Throws if the payload is corrupt or from an unsupported schema version
+export const decodeSnapshot = async (encoded: string) => {
+    const json = await pipeThrough(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    return readSnapshotPayload(JSON.parse(new TextDecoder().decode(json)));
+};
+
+export const hasHashSnapshot = (hash = window.location.hash) =>
+    hash.startsWith(HASH_PREFIX) && hash.length > HASH_PREFIX.length;
+
+export const readHashSnapshot = async (hash = window.location.hash): Promise<GridSnapshot | null> => {
+    if (!hasHashSnapshot(hash)) return null;
+    try {
+        return await decodeSnapshot(hash.slice(HASH_PREFIX.length));
+    } catch {
+        // Corrupt or from a newer schema: the grid stays as it is
+        return null;
+    }
+};
+
+export const toHash = (encoded: string) => `${HASH_PREFIX}${encoded}`;
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { createDevice, getFitScale, isWideViewport } from './devices';
+
+describe('isWideViewport', () => {
+    it('follows the effective viewport, not the orientation flag', () => {
+        expect(isWideViewport(createDevice('iphone-se'))).toBe(false);
+        expect(isWideViewport({ ...createDevice('iphone-se'), landscape: true })).toBe(true);
+        // Screens start out landscape, so flipping them makes them portrait
+        expect(isWideViewport(createDevice('laptop'))).toBe(true);
+        expect(isWideViewport({ ...createDevice('laptop'), landscape: true })).toBe(false);
+    });
+});
+
+describe('getFitScale', () => {
+    it('shrinks viewports to fit the tile', () => {
+        expect(getFitScale(createDevice('desktop'), 960, 1080)).toBe(0.5);
+        expect(getFitScale(createDevice('desktop'), 1920, 540)).toBe(0.5);
+    });
+
+    it('never scales small viewports up', () => {
+        expect(getFitScale(createDevice('iphone-se'), 1920, 1080)).toBe(1);
+    });
+
+    it('shows fill devices and unmeasured tiles at full size', () => {
+        expect(getFitScale(createDevice('fill'), 800, 600)).toBe(1);
+        expect(getFitScale(createDevice('ipad'), 0, 0)).toBe(1);
+    });
+});
@@ -0,0 +1,78 @@
+// Device viewport profiles used to emulate responsive breakpoints per frame.
+
+export type DeviceProfileId = 'fill' | 'iphone-se' | 'pixel-7' | 'ipad' | 'laptop' | 'desktop' | 'custom';
+
+export interface DeviceProfile {
+    id: DeviceProfileId;
+    label: string;
+    // Native (portrait for handhelds, landscape for screens) CSS viewport size
+    width: number;
+    height: number;
+}
+
+export interface FrameDevice {
+    profileId: DeviceProfileId;
+    width: number;
+    height: number;
+    landscape: boolean;
+}
+
+export const DEVICE_PROFILES: DeviceProfile[] = [
+    { id: 'fill', label: 'Fill Tile', width: 0, height: 0 },
+    { id: 'iphone-se', label: 'iPhone SE', width: 375, height: 667 },
+    { id: 'pixel-7', label: 'Pixel 7', width: 412, height: 915 },
+    { id: 'ipad', label: 'iPad', width: 768, height: 1024 },
+    { id: 'laptop', label: 'Laptop', width: 1366, height: 768 },
+    { id: 'desktop', label: 'Desktop HD', width: 1920, height: 1080 },
+    { id: 'custom', label: 'Custom', width: 1024, height: 768 },
+];
+
+// Profiles handed out by "spread devices", smallest to largest
+const SPREAD_ORDER: DeviceProfileId[] = ['iphone-se', 'pixel-7', 'ipad', 'laptop', 'desktop'];
+
+export const MIN_VIEWPORT = 200;
+export const MAX_VIEWPORT = 3840;
+
+export const DEFAULT_DEVICE: FrameDevice = { profileId: 'fill', width: 0, height: 0, landscape: false };
+
+export const getDeviceProfile = (id: DeviceProfileId) =>
+    DEVICE_PROFILES.find(p => p.id === id) ?? DEVICE_PROFILES[0];
+
+export const createDevice = (id: DeviceProfileId): FrameDevice => {
+    const profile = getDeviceProfile(id);
+    return { profileId: profile.id, width: profile.width, height: profile.height, landscape: false };
+};
+
+export const isFillDevice = (device: FrameDevice) => device.profileId === 'fill';
+
+export const clampViewport = (value: number) =>
+    Math.min(MAX_VIEWPORT, Math.max(MIN_VIEWPORT, Math.round(value) || MIN_VIEWPORT));
+
+// Effective CSS viewport after applying orientation
+export const getViewportSize = (device: FrameDevice) =>
+    device.landscape
+        ? { width: device.height, height: device.width }
+        : { width: device.width, height: device.height };
+
+// Whether the effective viewport is wider than tall. Screens are natively landscape, so
+// their `landscape` flag means they've been turned to portrait.
+export const isWideViewport = (device: FrameDevice) => {
+    const { width, height } = getViewportSize(device);
+    return width > height;
+};
+
+export const formatViewport = (device: FrameDevice) => {
+    const { width, height } = getViewportSize(device);
+    return `${width}×${height}`;
+};
+
+// Scale factor that fits a viewport into the available tile area without cropping. Small
+// viewports are shown at their real size rather than blown up.
+export const getFitScale = (device: FrameDevice, boxWidth: number, boxHeight: number) => {
+    const { width, height } = getViewportSize(device);
+    if (!width || !height || !boxWidth || !boxHeight) return 1;
+    return Math.min(1, boxWidth / width, boxHeight / height);
+};
+
+export const getSpreadDevice = (index: number): FrameDevice =>
+    createDevice(SPREAD_ORDER[index % SPREAD_ORDER.length]);
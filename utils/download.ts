@@ -0,0 +1,15 @@
+// Trigger a browser download for generated text content.
+export const downloadFile = (filename: string, content: string, mimeType = 'application/json') => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Give the browser a tick to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Filesystem-friendly slug, e.g. for export file names
+export const toFileSlug = (value: string) =>
+    value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
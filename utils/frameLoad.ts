@@ -0,0 +1,55 @@
+// Frame load lifecycle: statuses, timeout options and best-effort embed-block detection.
+
+export type FrameStatus = 'idle' | 'scheduled' | 'loading' | 'loaded' | 'timeout' | 'blocked' | 'suspended';
+
+export const DEFAULT_LOAD_TIMEOUT = 15000;
+
+export const LOAD_TIMEOUT_OPTIONS = [5000, 10000, 15000, 30000, 60000];
+
+// Minimum delay between starting each frame load
+export const LOADING_DELAY_OPTIONS = [
+    { ms: 0, label: 'None (0s)' },
+    { ms: 200, label: 'Fast (0.2s)' },
+    { ms: 800, label: 'Normal (0.8s)' },
+    { ms: 2000, label: 'Slow (2s)' },
+    { ms: 5000, label: 'Safe (5s)' },
+];
+
+export const DEFAULT_MAX_CONCURRENT = 4;
+
+// Maximum number of frames loading at once; 0 means no limit
+export const MAX_CONCURRENT_OPTIONS = [1, 2, 4, 6, 8, 0];
+
+// Statuses in which the iframe is mounted (error states keep it mounted under the card,
+// so a slow page can still finish loading)
+export const isFrameMounted = (status: FrameStatus) =>
+    status === 'loading' || status === 'loaded' || status === 'timeout' || status === 'blocked';
+
+export const isFrameFailed = (status: FrameStatus) => status === 'timeout' || status === 'blocked';
+
+export const formatLoadTime = (ms: number) =>
+    ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)}s`;
+
+// Browsers silently refuse http:// pages inside an https:// app (there is no window,
+// and so no app protocol, when the grid store runs under tests)
+export const getMixedContentReason = (url: string) =>
+    typeof window !== 'undefined' && window.location.protocol === 'https:' && url.trim().toLowerCase().startsWith('http://')
+        ? 'Insecure (http://) page blocked inside a secure (https://) app'
+        : null;
+
+// Called from the iframe's onLoad. Cross-origin documents are opaque, so a page that
+// refused framing (X-Frame-Options / CSP frame-ancestors) usually can't be told apart
+// from a working one. We only flag what we can see: a readable but empty document.
+export const detectBlockedFrame = (iframe: HTMLIFrameElement): string | null => {
+    try {
+        const doc = iframe.contentDocument;
+        if (!doc) return null;
+        const isEmpty = !doc.body || (doc.body.childElementCount === 0 && !doc.body.textContent?.trim());
+        if (doc.URL === 'about:blank' || isEmpty) {
+            return 'The page loaded empty. It most likely refuses to be embedded (X-Frame-Options or CSP frame-ancestors).';
+        }
+    } catch {
+        // Access denied means a real cross-origin document is there
+    }
+    return null;
+};
@@ -0,0 +1,136 @@
+// Per-frame embedding policy: sandbox tokens, permissions-policy features and referrer policy.
+
+export const SANDBOX_TOKENS = [
+    { token: 'allow-scripts', label: 'Scripts' },
+    { token: 'allow-same-origin', label: 'Same origin (cookies, storage)' },
+    { token: 'allow-forms', label: 'Forms' },
+    { token: 'allow-popups', label: 'Popups' },
+    { token: 'allow-popups-to-escape-sandbox', label: 'Unsandboxed popups' },
+    { token: 'allow-modals', label: 'Modals (alert, confirm)' },
+    { token: 'allow-downloads', label: 'Downloads' },
+    { token: 'allow-top-navigation-by-user-activation', label: 'Top navigation on click' },
+    { token: 'allow-storage-access-by-user-activation', label: 'Storage access on click' },
+    { token: 'allow-pointer-lock', label: 'Pointer lock' },
+    { token: 'allow-presentation', label: 'Presentation' },
+] as const;
+
+export type SandboxToken = typeof SANDBOX_TOKENS[number]['token'];
+
+export const PERMISSION_FEATURES = [
+    { feature: 'clipboard-write', label: 'Clipboard write' },
+    { feature: 'fullscreen', label: 'Fullscreen' },
+    { feature: 'camera', label: 'Camera' },
+    { feature: 'microphone', label: 'Microphone' },
+    { feature: 'geolocation', label: 'Geolocation' },
+] as const;
+
+export type PermissionFeature = typeof PERMISSION_FEATURES[number]['feature'];
+
+export const REFERRER_POLICIES: ReferrerPolicy[] = [
+    'no-referrer',
+    'no-referrer-when-downgrade',
+    'origin',
+    'origin-when-cross-origin',
+    'same-origin',
+    'strict-origin',
+    'strict-origin-when-cross-origin',
+    'unsafe-url',
+];
+
+export type PolicyPresetId = 'strict' | 'app-default' | 'fully-trusted';
+
+export interface FramePolicy {
+    // 'custom' once any setting no longer matches the preset it started from
+    presetId: PolicyPresetId | 'custom';
+    // null renders the frame without a sandbox attribute at all
+    sandbox: SandboxToken[] | null;
+    permissions: PermissionFeature[];
+    referrerPolicy: ReferrerPolicy;
+}
+
+const ALL_TOKENS = SANDBOX_TOKENS.map(t => t.token);
+const ALL_FEATURES = PERMISSION_FEATURES.map(p => p.feature);
+
+export const POLICY_PRESETS: { id: PolicyPresetId; label: string; policy: Omit<FramePolicy, 'presetId'> }[] = [
+    {
+        id: 'strict',
+        label: 'Strict',
+        policy: { sandbox: ['allow-scripts', 'allow-forms'], permissions: [], referrerPolicy: 'no-referrer' },
+    },
+    {
+        id: 'app-default',
+        label: 'App Default',
+        policy: {
+            sandbox: ['allow-scripts', 'allow-same-origin', 'allow-forms', 'allow-popups', 'allow-popups-to-escape-sandbox', 'allow-modals', 'allow-downloads'],
+            permissions: [],
+            referrerPolicy: 'no-referrer',
+        },
+    },
+    {
+        id: 'fully-trusted',
+        label: 'Fully Trusted',
+        policy: { sandbox: null, permissions: [...ALL_FEATURES], referrerPolicy: 'strict-origin-when-cross-origin' },
+    },
+];
+
+export const createPolicy = (presetId: PolicyPresetId): FramePolicy => {
+    const preset = POLICY_PRESETS.find(p => p.id === presetId) ?? POLICY_PRESETS[1];
+    return {
+        presetId: preset.id,
+        sandbox: preset.policy.sandbox && [...preset.policy.sandbox],
+        permissions: [...preset.policy.permissions],
+        referrerPolicy: preset.policy.referrerPolicy,
+    };
+};
+
+export const DEFAULT_FRAME_POLICY = createPolicy('app-default');
+
+export const getPolicyLabel = (policy: FramePolicy) =>
+    POLICY_PRESETS.find(p => p.id === policy.presetId)?.label ?? 'Custom';
+
+export const isSandboxToken = (value: unknown): value is SandboxToken =>
+    ALL_TOKENS.includes(value as SandboxToken);
+
+export const isPermissionFeature = (value: unknown): value is PermissionFeature =>
+    ALL_FEATURES.includes(value as PermissionFeature);
+
+export const isReferrerPolicy = (value: unknown): value is ReferrerPolicy =>
+    REFERRER_POLICIES.includes(value as ReferrerPolicy);
+
+// `opaqueOrigin` always strips 'allow-same-origin', so the page runs in an opaque origin
+// without cookie access: Ghost Mode asks for that, and local previews need it because srcdoc
+// documents would otherwise share OmniView's origin. An unsandboxed frame gets every other
+// token instead.
+export const getSandboxAttribute = (policy: FramePolicy, opaqueOrigin: boolean) => {
+    if (!policy.sandbox && !opaqueOrigin) return undefined;
+    const tokens = policy.sandbox ?? ALL_TOKENS;
+    return (opaqueOrigin ? tokens.filter(t => t !== 'allow-same-origin') : tokens).join(' ');
+};
+
+export const getAllowAttribute = (policy: FramePolicy) =>
+    policy.permissions.length ? policy.permissions.join('; ') : undefined;
+
+// Human-readable list of everything the frame is not allowed to do
+export const getPolicyRestrictions = (policy: FramePolicy, opaqueOrigin: boolean) => {
+    const sandbox = getSandboxAttribute(policy, opaqueOrigin)?.split(' ').filter(Boolean);
+    const restrictions = sandbox
+        ? SANDBOX_TOKENS.filter(t => !sandbox.includes(t.token)).map(t => `No ${t.label.toLowerCase()}`)
+        : [];
+    PERMISSION_FEATURES.forEach(p => {
+        if (!policy.permissions.includes(p.feature)) restrictions.push(`No ${p.label.toLowerCase()}`);
+    });
+    if (policy.referrerPolicy === 'no-referrer') restrictions.push('No referrer');
+    return restrictions;
+};
+
+// Which preset (if any) a set of settings matches
+export const matchPreset = (policy: Omit<FramePolicy, 'presetId'>): PolicyPresetId | 'custom' => {
+    const sameSet = (a: readonly string[] | null, b: readonly string[] | null) =>
+        a === null || b === null ? a === b : a.length === b.length && a.every(v => b.includes(v));
+    const preset = POLICY_PRESETS.find(p =>
+        sameSet(p.policy.sandbox, policy.sandbox) &&
+        sameSet(p.policy.permissions, policy.permissions) &&
+        p.policy.referrerPolicy === policy.referrerPolicy
+    );
+    return preset ? preset.id : 'custom';
+};
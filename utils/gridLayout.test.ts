@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_STRIP_ROWS, getGridTracks, getDefaultTrackSizes, getTilePlacement } from './gridLayout';
+
+describe('main-strip layout', () => {
+    it('stacks a few frames in a single strip column', () => {
+        expect(getGridTracks('main-strip', 1)).toEqual({ cols: 1, rows: 1, visibleRows: 1 });
+        expect(getGridTracks('main-strip', 4)).toEqual({ cols: 2, rows: 3, visibleRows: 3 });
+    });
+
+    it('adds strip columns instead of shrinking tiles', () => {
+        const tracks = getGridTracks('main-strip', 24);
+        expect(tracks.rows).toBeLessThanOrEqual(MAX_STRIP_ROWS);
+        expect((tracks.cols - 1) * tracks.rows).toBeGreaterThanOrEqual(23);
+        expect(getDefaultTrackSizes('main-strip', tracks).cols).toEqual([tracks.cols, ...Array(tracks.cols - 1).fill(1)]);
+    });
+
+    it('fills each strip column top to bottom', () => {
+        const tracks = getGridTracks('main-strip', 7);
+        expect(tracks).toEqual({ cols: 3, rows: 3, visibleRows: 3 });
+        expect(getTilePlacement('main-strip', 0, tracks)).toEqual({ gridColumn: '1', gridRow: '1 / span 3' });
+        expect(getTilePlacement('main-strip', 3, tracks)).toEqual({ gridColumn: '2', gridRow: '3' });
+        expect(getTilePlacement('main-strip', 4, tracks)).toEqual({ gridColumn: '3', gridRow: '1' });
+        expect(getTilePlacement('main-strip', 6, tracks)).toEqual({ gridColumn: '3', gridRow: '3' });
+    });
+});
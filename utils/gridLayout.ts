@@ -0,0 +1,107 @@
+// Grid layout engine: presets, track sizing and tile placement for BrowserGrid.
+
+export type LayoutPreset = 'auto' | '1x2' | '2x2' | '3x3' | 'main-strip';
+
+export interface LayoutPresetDef {
+    id: LayoutPreset;
+    label: string;
+    // Fixed presets declare how many rows are visible at once; 'auto' scrolls freely
+    rows?: number;
+    cols?: number;
+}
+
+export interface GridTracks {
+    cols: number;
+    rows: number;
+    // How many rows fit into the visible grid area (overflowing rows scroll)
+    visibleRows: number;
+}
+
+export const MIN_FRAMES = 1;
+export const MAX_FRAMES = 25;
+export const DEFAULT_FRAME_COUNT = 10;
+
+// Smallest share a track can be dragged down to, relative to the whole axis
+const MIN_TRACK_FRACTION = 0.1;
+
+// Tiles per column in the main-strip side strip; more frames add strip columns
+export const MAX_STRIP_ROWS = 4;
+
+export const LAYOUT_PRESETS: LayoutPresetDef[] = [
+    { id: 'auto', label: 'Auto' },
+    { id: '1x2', label: '1 x 2', rows: 1, cols: 2 },
+    { id: '2x2', label: '2 x 2', rows: 2, cols: 2 },
+    { id: '3x3', label: '3 x 3', rows: 3, cols: 3 },
+    { id: 'main-strip', label: 'Main + Strip' },
+];
+
+export const isLayoutPreset = (value: unknown): value is LayoutPreset =>
+    LAYOUT_PRESETS.some(p => p.id === value);
+
+export const clampFrameCount = (count: number) =>
+    Math.min(MAX_FRAMES, Math.max(MIN_FRAMES, Math.round(count) || MIN_FRAMES));
+
+export const getGridTracks = (preset: LayoutPreset, count: number): GridTracks => {
+    if (preset === 'main-strip') {
+        // One large tile on the left, every other frame in the side strip, which grows
+        // extra columns rather than shrinking tiles to slivers
+        const stripCount = count - 1;
+        if (stripCount < 1) return { cols: 1, rows: 1, visibleRows: 1 };
+        const stripCols = Math.ceil(stripCount / MAX_STRIP_ROWS);
+        const rows = Math.ceil(stripCount / stripCols);
+        return { cols: 1 + stripCols, rows, visibleRows: rows };
+    }
+
+    const def = LAYOUT_PRESETS.find(p => p.id === preset);
+    if (!def || !def.cols || !def.rows) {
+        return { cols: 0, rows: 0, visibleRows: 0 };
+    }
+
+    const rows = Math.max(1, Math.ceil(count / def.cols));
+    return { cols: def.cols, rows, visibleRows: Math.min(rows, def.rows) };
+};
+
+export const getDefaultTrackSizes = (preset: LayoutPreset, tracks: GridTracks) => ({
+    // The main tile keeps at least half the width however many strip columns there are
+    cols: preset === 'main-strip' && tracks.cols > 1
+        ? [Math.max(3, tracks.cols), ...Array(tracks.cols - 1).fill(1)]
+        : Array(tracks.cols).fill(1),
+    rows: Array(tracks.rows).fill(1),
+});
+
+// Placement for the tile at display position `index`
+export const getTilePlacement = (preset: LayoutPreset, index: number, tracks: GridTracks): { gridColumn?: string; gridRow?: string } => {
+    if (preset !== 'main-strip' || tracks.cols < 2) return {};
+    if (index === 0) return { gridColumn: '1', gridRow: `1 / span ${tracks.rows}` };
+    // Strip tiles fill each strip column top to bottom
+    const slot = index - 1;
+    return { gridColumn: `${2 + Math.floor(slot / tracks.rows)}`, gridRow: `${(slot % tracks.rows) + 1}` };
+};
+
+// Move the boundary after track `index` by `delta` (a fraction of the whole axis),
+// borrowing space only from the two tracks adjacent to that boundary.
+export const resizeTracks = (sizes: number[], index: number, delta: number): number[] => {
+    if (index < 0 || index >= sizes.length - 1) return sizes;
+
+    const total = sizes.reduce((sum, s) => sum + s, 0);
+    const pair = sizes[index] + sizes[index + 1];
+    const min = MIN_TRACK_FRACTION * total;
+    if (pair <= min * 2) return sizes;
+
+    const first = Math.min(pair - min, Math.max(min, sizes[index] + delta * total));
+    const next = [...sizes];
+    next[index] = first;
+    next[index + 1] = pair - first;
+    return next;
+};
+
+// Return a copy of `list` with the item at `from` moved to `to`
+export const moveItem = <T>(list: T[], from: number, to: number): T[] => {
+    if (from === to || from < 0 || to < 0 || from >= list.length || to >= list.length) return list;
+    const next = [...list];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+};
+
+export const toTemplate = (sizes: number[]) => sizes.map(s => `minmax(0, ${s}fr)`).join(' ');
@@ -0,0 +1,282 @@
+import { describe, it, expect } from 'vitest';
+import { GridAction, GridState } from '../types';
+import { MAX_UNDO, createGridState, gridReducer, getUndoLabel, getRedoLabel } from './gridStore';
+import { GridViewState, FrameSnapshot, DEFAULT_GRID_VIEW } from './workspaces';
+import { DEFAULT_DEVICE } from './devices';
+import { DEFAULT_FRAME_POLICY } from './framePolicy';
+import { DEFAULT_REVIEW } from './qaReview';
+import { LocalSource } from './localPreview';
+import { DEFAULT_PROBE } from './uptime';
+
+const snapshot = (currentUrl: string, isLocked = false): FrameSnapshot => ({
+    currentUrl,
+    isLocked,
+    device: DEFAULT_DEVICE,
+    label: '',
+    refreshInterval: 0,
+    refreshPaused: false,
+    policy: DEFAULT_FRAME_POLICY,
+    review: DEFAULT_REVIEW,
+    probe: DEFAULT_PROBE,
+});
+
+const initial = (frames: FrameSnapshot[], view: Partial<GridViewState> = {}): GridViewState => ({ ...DEFAULT_GRID_VIEW, ...view, frames });
+
+const run = (state: GridState, ...actions: GridAction[]) => actions.reduce(gridReducer, state);
+
+const urls = (state: GridState) => state.frames.map(f => f.currentUrl);
+
+describe('createGridState', () => {
+    it('starts empty with the default settings', () => {
+        const state = createGridState(null, 'auto');
+        expect(state.frames).toEqual([]);
+        expect(state.scale).toBe(DEFAULT_GRID_VIEW.scale);
+        expect(state.layout).toBe('auto');
+        expect(state.past).toEqual([]);
+    });
+
+    it('restores frames and queues those with a URL in order', () => {
+        const state = createGridState(initial([snapshot('a.com', true), snapshot(''), snapshot('b.com')], { scale: 0.5 }), '2x2');
+        expect(state.scale).toBe(0.5);
+        expect(state.frames.map(f => f.id)).toEqual([0, 1, 2]);
+        expect(state.frames.map(f => f.status)).toEqual(['scheduled', 'idle', 'scheduled']);
+        expect(state.frames[0].isLocked).toBe(true);
+        expect(state.frames[0].queuedAt!).toBeLessThan(state.frames[2].queuedAt!);
+    });
+});
+
+describe('gridReducer', () => {
+    it('grows and trims the grid, keeping existing frames', () => {
+        let state = run(createGridState(null, 'auto'), { type: 'setFrameCount', count: 3, masterUrl: 'a.com' });
+        expect(urls(state)).toEqual(['a.com', 'a.com', 'a.com']);
+
+        state = run(state, { type: 'navigate', id: 1, url: 'b.com' }, { type: 'setFrameCount', count: 2, masterUrl: 'a.com' });
+        expect(urls(state)).toEqual(['a.com', 'b.com']);
+        expect(state.frames[1].isLocked).toBe(true);
+
+        state = run(state, { type: 'setFrameCount', count: 3, masterUrl: 'a.com' });
+        expect(state.frames.map(f => f.id)).toEqual([0, 1, 2]);
+    });
+
+    it('only adds empty frames while sync is off', () => {
+        const state = run(createGridState(initial([], { isSyncing: false }), 'auto'), { type: 'setFrameCount', count: 2, masterUrl: 'a.com' });
+        expect(urls(state)).toEqual(['', '']);
+        expect(state.frames.every(f => f.status === 'idle')).toBe(true);
+    });
+
+    it('syncs the master URL into unlocked frames only', () => {
+        let state = createGridState(initial([snapshot('a.com'), snapshot('b.com', true)]), 'auto');
+        state = run(state, { type: 'syncUrl', url: 'c.com' });
+        expect(urls(state)).toEqual(['c.com', 'b.com']);
+        expect(state.frames[0].history).toEqual(['a.com', 'c.com']);
+
+        state = run(state, { type: 'updateSettings', settings: { isSyncing: false } }, { type: 'syncUrl', url: 'd.com' });
+        expect(urls(state)).toEqual(['c.com', 'b.com']);
+    });
+
+    it('keeps lock state through refreshes and syncs', () => {
+        let state = createGridState(initial([snapshot('a.com'), snapshot('b.com')]), 'auto');
+        state = run(state, { type: 'toggleLock', id: 1 }, { type: 'refreshAll' }, { type: 'syncUrl', url: 'c.com' }, { type: 'refresh', id: 1 });
+        expect(state.frames.map(f => f.isLocked)).toEqual([false, true]);
+        expect(urls(state)).toEqual(['c.com', 'b.com']);
+    });
+
+    it('refreshes from the current frames, not a stale copy', () => {
+        let state = createGridState(initial([snapshot(''), snapshot('')]), 'auto');
+        state = run(state, { type: 'navigate', id: 0, url: 'a.com' }, { type: 'refreshAll' });
+        expect(state.frames.map(f => f.status)).toEqual(['scheduled', 'idle']);
+    });
+
+    it('runs a load from queued to loaded', () => {
+        let state = createGridState(initial([snapshot('a.com')]), 'auto');
+        state = run(state, { type: 'startLoad', id: 0, now: 100, wallNow: 0 });
+        expect(state.frames[0]).toMatchObject({ status: 'loading', key: 1, loadStartedAt: 100 });
+
+        // Load events from an older key are ignored
+        expect(run(state, { type: 'frameLoaded', id: 0, key: 0, blockedReason: null, now: 200 })).toBe(state);
+
+        state = run(state, { type: 'frameLoaded', id: 0, key: 1, blockedReason: null, now: 350 });
+        expect(state.frames[0]).toMatchObject({ status: 'loaded', loadTimeMs: 250 });
+    });
+
+    it('gives every load its own ID, unique across sessions', () => {
+        const load = (wallNow: number) => run(createGridState(initial([snapshot('a.com')]), 'auto'), { type: 'startLoad', id: 0, now: 0, wallNow });
+        const first = load(1000).frames[0];
+        const reloaded = run(load(1000), { type: 'refresh', id: 0 }, { type: 'startLoad', id: 0, now: 10, wallNow: 1010 }).frames[0];
+        const nextSession = load(5000).frames[0];
+        expect(new Set([first.loadId, reloaded.loadId, nextSession.loadId]).size).toBe(3);
+    });
+
+    it('blocks URLs that fail the check instead of loading them', () => {
+        const state = run(createGridState(initial([snapshot('javascript:alert(1)')]), 'auto'), { type: 'startLoad', id: 0, now: 0, wallNow: 0 });
+        expect(state.frames[0].status).toBe('blocked');
+        expect(state.frames[0].statusDetail).toMatch(/^Refused to load/);
+    });
+
+    it('times out a load only for the key it was armed for', () => {
+        let state = run(createGridState(initial([snapshot('a.com')], { loadTimeout: 5000 }), 'auto'), { type: 'startLoad', id: 0, now: 0, wallNow: 0 });
+        expect(run(state, { type: 'loadTimedOut', id: 0, key: 0 })).toBe(state);
+
+        state = run(state, { type: 'loadTimedOut', id: 0, key: 1 });
+        expect(state.frames[0].status).toBe('timeout');
+        expect(state.frames[0].statusDetail).toContain('5s');
+
+        // A late load still counts
+        state = run(state, { type: 'frameLoaded', id: 0, key: 1, blockedReason: null, now: 9000 });
+        expect(state.frames[0].status).toBe('loaded');
+    });
+
+    it('suspends offscreen frames and requeues them when they return', () => {
+        let state = run(createGridState(initial([snapshot('a.com')], { suspendOffscreen: true }), 'auto'), { type: 'startLoad', id: 0, now: 0, wallNow: 0 });
+        state = run(state, { type: 'syncOffscreen', offscreenIds: [0] });
+        expect(state.frames[0].status).toBe('suspended');
+        state = run(state, { type: 'syncOffscreen', offscreenIds: [] });
+        expect(state.frames[0].status).toBe('scheduled');
+    });
+
+    it('requeues frames whose auto-refresh is due', () => {
+        let state = createGridState(initial([snapshot('a.com')]), 'auto', 0);
+        state = run(state,
+            { type: 'startLoad', id: 0, now: 0, wallNow: 0 },
+            { type: 'setRefreshInterval', id: 0, interval: 30000, wallNow: 0 },
+        );
+        expect(run(state, { type: 'autoRefreshTick', wallNow: 1000 })).toBe(state);
+
+        state = run(state, { type: 'autoRefreshTick', wallNow: 30000 });
+        expect(state.frames[0].status).toBe('scheduled');
+        expect(state.frames[0].autoRefresh.dueAt).toBe(60000);
+    });
+
+    it('freezes and thaws countdowns when auto-refresh is paused grid-wide', () => {
+        let state = createGridState(initial([{ ...snapshot('a.com'), refreshInterval: 30000 }]), 'auto', 0);
+        state = run(state, { type: 'toggleGridAutoRefresh', wallNow: 10000 });
+        expect(state.autoRefreshPaused).toBe(true);
+        expect(state.frames[0].autoRefresh).toMatchObject({ dueAt: null, remaining: 20000 });
+
+        state = run(state, { type: 'toggleGridAutoRefresh', wallNow: 50000 });
+        expect(state.frames[0].autoRefresh.dueAt).toBe(70000);
+    });
+
+    it('gives frames new sessions when Ghost Mode turns on', () => {
+        const state = createGridState(initial([snapshot('a.com')]), 'auto');
+        const ghost = run(state, { type: 'setGhostMode', enabled: true });
+        expect(ghost.ghostMode).toBe(true);
+        expect(ghost.frames[0].sessionId).not.toBe(state.frames[0].sessionId);
+    });
+
+    it('hands matrix URLs to unlocked frames and turns sync off', () => {
+        let state = createGridState(initial([snapshot('a.com', true), snapshot(''), snapshot('')]), 'auto');
+        state = run(state, { type: 'applyMatrix', entries: [{ url: 'x.com?v=1', label: 'v=1' }, { url: 'x.com?v=2', label: 'v=2' }] });
+        expect(state.isSyncing).toBe(false);
+        expect(urls(state)).toEqual(['a.com', 'x.com?v=1', 'x.com?v=2']);
+        expect(state.frames.map(f => f.label)).toEqual(['', 'v=1', 'v=2']);
+    });
+
+    it('steps through a frame\'s own history', () => {
+        let state = createGridState(initial([snapshot('a.com')]), 'auto');
+        state = run(state, { type: 'navigate', id: 0, url: 'b.com' }, { type: 'stepHistory', id: 0, delta: -1 });
+        expect(urls(state)).toEqual(['a.com']);
+        expect(run(state, { type: 'stepHistory', id: 0, delta: -1 })).toBe(state);
+        state = run(state, { type: 'stepHistory', id: 0, delta: 1 });
+        expect(urls(state)).toEqual(['b.com']);
+    });
+
+    it('locks a frame showing a local preview and requeues it on close', () => {
+        const source: LocalSource = { kind: 'paste', name: 'Pasted HTML', html: '<p>hi</p>', blobUrls: [] };
+        let state = createGridState(initial([snapshot('a.com')]), 'auto');
+        state = run(state, { type: 'setLocalSource', id: 0, source });
+        expect(state.frames[0]).toMatchObject({ isLocked: true, status: 'scheduled' });
+        state = run(state, { type: 'setLocalSource', id: 0, source: null });
+        expect(state.frames[0]).toMatchObject({ localSource: null, currentUrl: 'a.com', status: 'scheduled' });
+    });
+});
+
+describe('undo and redo', () => {
+    const start = () => createGridState(initial([snapshot('a.com'), snapshot('b.com'), snapshot('c.com')]), 'auto');
+
+    it('undoes and redoes a URL change', () => {
+        let state = run(start(), { type: 'navigate', id: 0, url: 'z.com' });
+        expect(getUndoLabel(state)).toBe('Change URL of frame 1');
+
+        state = run(state, { type: 'undo' });
+        expect(urls(state)[0]).toBe('a.com');
+        expect(state.frames[0].isLocked).toBe(false);
+        expect(state.frames[0].status).toBe('scheduled');
+        expect(getUndoLabel(state)).toBeNull();
+        expect(getRedoLabel(state)).toBe('Change URL of frame 1');
+
+        state = run(state, { type: 'redo' });
+        expect(urls(state)[0]).toBe('z.com');
+        expect(state.frames[0].isLocked).toBe(true);
+    });
+
+    it('undoes lock toggles, layout changes and reorders', () => {
+        let state = run(start(),
+            { type: 'toggleLock', id: 1 },
+            { type: 'setLayout', layout: '2x2' },
+            { type: 'moveFrame', id: 2, to: 0 },
+        );
+        expect(state.past.map(e => e.label)).toEqual(['Lock frame 2', 'Change layout', 'Move frame 3']);
+
+        state = run(state, { type: 'undo' });
+        expect(state.frames.map(f => f.id)).toEqual([0, 1, 2]);
+        state = run(state, { type: 'undo' });
+        expect(state.layout).toBe('auto');
+        state = run(state, { type: 'undo' });
+        expect(state.frames[1].isLocked).toBe(false);
+        expect(run(state, { type: 'undo' })).toBe(state);
+    });
+
+    it('leaves changes made after an edit alone', () => {
+        let state = run(start(), { type: 'toggleLock', id: 0 }, { type: 'syncUrl', url: 'z.com' });
+        expect(urls(state)).toEqual(['a.com', 'z.com', 'z.com']);
+        state = run(state, { type: 'undo' });
+        expect(state.frames[0].isLocked).toBe(false);
+        expect(urls(state)).toEqual(['a.com', 'z.com', 'z.com']);
+    });
+
+    it('does not record loads, settings or edits that change nothing', () => {
+        const state = run(start(),
+            { type: 'startLoad', id: 0, now: 0, wallNow: 0 },
+            { type: 'updateSettings', settings: { scale: 0.5 } },
+            { type: 'refreshAll' },
+            { type: 'setLocked', id: 0, locked: false },
+            { type: 'moveFrame', id: 0, to: 0 },
+        );
+        expect(state.past).toEqual([]);
+    });
+
+    it('clears redo after a new edit', () => {
+        let state = run(start(), { type: 'toggleLock', id: 0 }, { type: 'undo' });
+        expect(state.future).toHaveLength(1);
+        state = run(state, { type: 'toggleLock', id: 1 });
+        expect(state.future).toEqual([]);
+    });
+
+    it('undoes a run of custom size edits as one step', () => {
+        let state = run(start(),
+            { type: 'setDeviceProfile', id: 0, profileId: 'custom' },
+            { type: 'setCustomSize', id: 0, dimension: 'width', value: 4, commit: false },
+            { type: 'setCustomSize', id: 0, dimension: 'width', value: 40, commit: false },
+            { type: 'setCustomSize', id: 0, dimension: 'width', value: 400, commit: true },
+        );
+        expect(state.past).toHaveLength(2);
+        expect(state.frames[0].device.width).toBe(400);
+        state = run(state, { type: 'undo' });
+        expect(state.frames[0].device.profileId).toBe('custom');
+        expect(state.frames[0].device.width).toBe(1024);
+    });
+
+    it('skips frames removed since the edit', () => {
+        let state = run(start(), { type: 'toggleLock', id: 2 }, { type: 'setFrameCount', count: 2, masterUrl: '' });
+        state = run(state, { type: 'undo' });
+        expect(state.frames.map(f => f.id)).toEqual([0, 1]);
+        expect(getRedoLabel(state)).toBe('Lock frame 3');
+    });
+
+    it(`keeps at most ${MAX_UNDO} steps`, () => {
+        let state = start();
+        for (let i = 0; i < MAX_UNDO + 5; i++) state = run(state, { type: 'toggleLock', id: 0 });
+        expect(state.past).toHaveLength(MAX_UNDO);
+    });
+});
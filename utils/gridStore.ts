@@ -0,0 +1,417 @@
+// Grid store: the frames and grid settings behind BrowserGrid as a pure reducer, with
+// undo/redo for grid edits. Timers, DOM events and the iframes themselves stay in the
+// component, which turns them into actions.
+import { FrameData, FrameEdit, GridAction, GridActionType, GridEdit, GridState } from '../types';
+import { LayoutPreset, moveItem } from './gridLayout';
+import { DEFAULT_DEVICE, createDevice, clampViewport, getSpreadDevice } from './devices';
+import { GridViewState, FrameSnapshot, DEFAULT_GRID_VIEW } from './workspaces';
+import { isFrameMounted, getMixedContentReason } from './frameLoad';
+import { DEFAULT_AUTO_REFRESH, createAutoRefresh, restartTimer, freezeTimer, thawTimer, isDue } from './autoRefresh';
+import { DEFAULT_FRAME_POLICY } from './framePolicy';
+import { DEFAULT_REVIEW } from './qaReview';
+import { DEFAULT_PROBE } from './uptime';
+import { checkUrl } from './url';
+
+// Generate a random session ID (pseudo-UUID)
+const generateSessionId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+
+const MAX_HISTORY = 50;
+
+export const MAX_UNDO = 50;
+
+// Point a frame at a new URL, recording it in the frame's own history
+// (dropping any forward entries, like a browser does)
+const navigateTo = (frame: FrameData, url: string): FrameData => {
+    if (!url) return { ...frame, currentUrl: '', localSource: null };
+    const base = frame.history.slice(0, frame.historyIndex + 1);
+    const history = base[base.length - 1] === url ? base : [...base, url].slice(-MAX_HISTORY);
+    return { ...frame, currentUrl: url, history, historyIndex: history.length - 1, localSource: null };
+};
+
+// Put a frame at position `seq` in the load queue (or idle it if there's nothing to load)
+const enqueue = (frame: FrameData, seq: number): FrameData => frame.currentUrl || frame.localSource
+    ? { ...frame, status: 'scheduled', statusDetail: '', queuedAt: seq }
+    : { ...frame, status: 'idle', statusDetail: '', queuedAt: null, loadStartedAt: null, loadTimeMs: null };
+
+// Move a queued frame into 'loading', remount its iframe and start its load clock
+const beginLoad = (frame: FrameData, now: number, wallNow: number): FrameData => {
+    const check = checkUrl(frame.currentUrl);
+    const blockedReason = frame.localSource
+        ? null
+        : check.ok ? getMixedContentReason(check.url) : `Refused to load: ${check.reason}.`;
+    return {
+        ...frame,
+        key: frame.key + 1,
+        loadId: `${wallNow.toString(36)}${(frame.key + 1).toString(36)}`,
+        status: blockedReason ? 'blocked' : 'loading',
+        statusDetail: blockedReason ?? '',
+        queuedAt: null,
+        loadStartedAt: now,
+        loadTimeMs: null
+    };
+};
+
+// A new, idle frame; it joins the load queue once added to the grid
+const createFrame = (id: number, currentUrl = ''): FrameData => navigateTo({
+    id,
+    currentUrl: '',
+    history: [],
+    historyIndex: -1,
+    key: 0,
+    loadId: '',
+    isLocked: false,
+    status: 'idle',
+    statusDetail: '',
+    loadStartedAt: null,
+    loadTimeMs: null,
+    queuedAt: null,
+    sessionId: generateSessionId(), // Assign distinct identity on creation
+    device: DEFAULT_DEVICE,
+    label: '',
+    autoRefresh: DEFAULT_AUTO_REFRESH,
+    policy: DEFAULT_FRAME_POLICY,
+    localSource: null,
+    review: DEFAULT_REVIEW,
+    probe: DEFAULT_PROBE
+}, currentUrl);
+
+const restoreFrame = (snapshot: FrameSnapshot, id: number, wallNow: number): FrameData => ({
+    ...createFrame(id, snapshot.currentUrl),
+    isLocked: snapshot.isLocked,
+    device: snapshot.device,
+    label: snapshot.label,
+    autoRefresh: createAutoRefresh(snapshot.refreshInterval, snapshot.refreshPaused, wallNow),
+    policy: snapshot.policy,
+    review: snapshot.review,
+    probe: snapshot.probe
+});
+
+// Map over the frames. `queue` puts a frame at the back of the load queue; the state is
+// returned as is when no frame changed.
+const updateFrames = (
+    state: GridState,
+    update: (frame: FrameData, queue: (frame: FrameData) => FrameData, index: number) => FrameData
+): GridState => {
+    let queueSeq = state.queueSeq;
+    const queue = (frame: FrameData) => enqueue(frame, ++queueSeq);
+    const frames = state.frames.map((f, index) => update(f, queue, index));
+    return frames.some((f, index) => f !== state.frames[index]) ? { ...state, frames, queueSeq } : state;
+};
+
+const updateFrame = (state: GridState, id: number, update: (frame: FrameData, queue: (frame: FrameData) => FrameData) => FrameData) =>
+    updateFrames(state, (f, queue) => f.id === id ? update(f, queue) : f);
+
+// Initial state for a grid, restored from a saved workspace or session if given. Every
+// frame with something to show is queued for load.
+export const createGridState = (initial: GridViewState | null | undefined, layout: LayoutPreset, wallNow = Date.now()): GridState => {
+    const state: GridState = {
+        ...DEFAULT_GRID_VIEW,
+        ...initial,
+        frames: (initial?.frames ?? []).map((snapshot, id) => restoreFrame(snapshot, id, wallNow)),
+        layout,
+        ghostMode: false,
+        autoRefreshPaused: false,
+        queueSeq: 0,
+        past: [],
+        future: [],
+    };
+    return updateFrames(state, (f, queue) => queue(f));
+};
+
+const applyAction = (state: GridState, action: GridAction): GridState => {
+    switch (action.type) {
+        // Keep existing frames (URL, lock state) when the count changes. The array order
+        // is the display order, so frames are trimmed from and added to the end.
+        case 'setFrameCount': {
+            const { count } = action;
+            if (state.frames.length >= count) {
+                return state.frames.length === count ? state : { ...state, frames: state.frames.slice(0, count) };
+            }
+            // New frames join the current sync target straight away
+            let nextId = Math.max(-1, ...state.frames.map(f => f.id)) + 1;
+            let queueSeq = state.queueSeq;
+            const added = Array(count - state.frames.length).fill(null)
+                .map(() => enqueue(createFrame(nextId++, state.isSyncing ? action.masterUrl : ''), ++queueSeq));
+            return { ...state, frames: [...state.frames, ...added], queueSeq };
+        }
+
+        // Unlocked frames follow the master URL while syncing
+        case 'syncUrl':
+            if (!state.isSyncing) return state;
+            return updateFrames(state, (f, queue) => f.isLocked ? f
+                : action.url ? queue(navigateTo({ ...f, label: '' }, action.url))
+                : queue({ ...f, currentUrl: '', label: '' }));
+
+        case 'updateSettings':
+            return { ...state, ...action.settings };
+
+        // Turning Ghost Mode on regenerates all session IDs to ensure freshness
+        case 'setGhostMode': {
+            if (action.enabled === state.ghostMode) return state;
+            const next = { ...state, ghostMode: action.enabled };
+            if (!action.enabled) return next;
+            return updateFrames(next, (f, queue) => {
+                const fresh = { ...f, sessionId: generateSessionId() };
+                return isFrameMounted(f.status) ? queue(fresh) : fresh;
+            });
+        }
+
+        case 'setLayout':
+            return action.layout === state.layout ? state : { ...state, layout: action.layout };
+
+        // Typing a URL into a frame takes it out of sync
+        case 'navigate':
+            return updateFrame(state, action.id, (f, queue) => queue(navigateTo({ ...f, label: '', isLocked: true }, action.url)));
+
+        case 'stepHistory':
+            return updateFrame(state, action.id, (f, queue) => {
+                const index = f.historyIndex + action.delta;
+                if (index < 0 || index >= f.history.length) return f;
+                return queue({ ...f, currentUrl: f.history[index], historyIndex: index, label: '', localSource: null });
+            });
+
+        case 'toggleLock':
+            return updateFrame(state, action.id, f => ({ ...f, isLocked: !f.isLocked }));
+
+        case 'setLocked':
+            return updateFrame(state, action.id, f => f.isLocked === action.locked ? f : { ...f, isLocked: action.locked });
+
+        case 'setAllLocked':
+            return updateFrames(state, f => f.isLocked === action.locked ? f : { ...f, isLocked: action.locked });
+
+        case 'refresh':
+            return updateFrame(state, action.id, (f, queue) => queue(f));
+
+        // Locked frames that were never loaded stay idle. In Ghost Mode, refresh means
+        // "New Session", so every frame gets a new ID.
+        case 'refreshAll':
+            return updateFrames(state, (f, queue) => {
+                const next = state.ghostMode ? { ...f, sessionId: generateSessionId() } : f;
+                return (f.currentUrl || f.localSource) && (!f.isLocked || f.status !== 'idle') ? queue(next) : next;
+            });
+
+        // The auto-refresh countdown restarts from every load, manual or automatic
+        case 'startLoad':
+            return updateFrame(state, action.id, f => f.status !== 'scheduled' ? f : {
+                ...beginLoad(f, action.now, action.wallNow),
+                autoRefresh: restartTimer(f.autoRefresh, action.wallNow, state.autoRefreshPaused)
+            });
+
+        // Late loads (after a timeout) still count; in-frame navigations after that are ignored
+        case 'frameLoaded':
+            return updateFrame(state, action.id, f => {
+                if (f.key !== action.key || (f.status !== 'loading' && f.status !== 'timeout')) return f;
+                return {
+                    ...f,
+                    status: action.blockedReason ? 'blocked' : 'loaded',
+                    statusDetail: action.blockedReason ?? '',
+                    loadTimeMs: f.loadStartedAt === null ? null : action.now - f.loadStartedAt
+                };
+            });
+
+        case 'loadTimedOut':
+            return updateFrame(state, action.id, f => f.key !== action.key || f.status !== 'loading' ? f : {
+                ...f,
+                status: 'timeout',
+                statusDetail: `No load event after ${state.loadTimeout / 1000}s. The server may be slow or unreachable.`
+            });
+
+        // Unload frames scrolled out of view, requeue them when they return
+        case 'syncOffscreen':
+            return updateFrames(state, (f, queue) => {
+                const isOffscreen = action.offscreenIds.includes(f.id);
+                if (isOffscreen && isFrameMounted(f.status)) return { ...f, status: 'suspended', statusDetail: '', loadStartedAt: null };
+                if ((!isOffscreen || !state.suspendOffscreen) && f.status === 'suspended') return queue(f);
+                return f;
+            });
+
+        case 'autoRefreshTick':
+            return updateFrames(state, (f, queue) => {
+                if (!isDue(f.autoRefresh, action.wallNow)) return f;
+                // Push the deadline out so a frame waiting in the queue isn't requeued every tick
+                const autoRefresh = { ...f.autoRefresh, dueAt: action.wallNow + f.autoRefresh.interval };
+                return (f.currentUrl || f.localSource) && f.status !== 'scheduled' ? queue({ ...f, autoRefresh }) : { ...f, autoRefresh };
+            });
+
+        case 'setRefreshInterval':
+            return updateFrame(state, action.id, f => ({
+                ...f,
+                autoRefresh: restartTimer({ ...f.autoRefresh, interval: action.interval }, action.wallNow, state.autoRefreshPaused)
+            }));
+
+        case 'toggleFrameAutoRefresh':
+            return updateFrame(state, action.id, f => {
+                const paused = !f.autoRefresh.paused;
+                const toggled = { ...f.autoRefresh, paused };
+                return {
+                    ...f,
+                    autoRefresh: paused ? freezeTimer(toggled, action.wallNow) : state.autoRefreshPaused ? toggled : thawTimer(toggled, action.wallNow)
+                };
+            });
+
+        case 'toggleGridAutoRefresh': {
+            const paused = !state.autoRefreshPaused;
+            return updateFrames({ ...state, autoRefreshPaused: paused }, f => f.autoRefresh.paused ? f : {
+                ...f,
+                autoRefresh: paused ? freezeTimer(f.autoRefresh, action.wallNow) : thawTimer(f.autoRefresh, action.wallNow)
+            });
+        }
+
+        case 'setDeviceProfile':
+            return updateFrame(state, action.id, f => ({ ...f, device: createDevice(action.profileId) }));
+
+        case 'toggleOrientation':
+            return updateFrame(state, action.id, f => ({ ...f, device: { ...f.device, landscape: !f.device.landscape } }));
+
+        case 'setCustomSize':
+            return updateFrame(state, action.id, f => ({
+                ...f,
+                device: { ...f.device, [action.dimension]: action.commit ? clampViewport(action.value) : action.value }
+            }));
+
+        // Give every unlocked frame a different device profile
+        case 'spreadDevices': {
+            let next = 0;
+            return updateFrames(state, f => f.isLocked ? f : { ...f, device: getSpreadDevice(next++) });
+        }
+
+        // Hand each unlocked frame its own URL from the matrix. Sync is switched off
+        // so the master URL doesn't overwrite them; frames stay unlocked.
+        case 'applyMatrix': {
+            const targetIds = state.frames.filter(f => !f.isLocked).slice(0, action.entries.length).map(f => f.id);
+            return updateFrames({ ...state, isSyncing: false }, (f, queue) => {
+                const index = targetIds.indexOf(f.id);
+                if (index === -1) return f;
+                return queue(navigateTo({ ...f, label: action.entries[index].label }, action.entries[index].url));
+            });
+        }
+
+        case 'moveFrame': {
+            const frames = moveItem(state.frames, state.frames.findIndex(f => f.id === action.id), action.to);
+            return frames === state.frames ? state : { ...state, frames };
+        }
+
+        // Local previews take the frame out of sync, like typing a URL does; closing one
+        // goes back to the frame's URL, if it had one before the preview
+        case 'setLocalSource':
+            return updateFrame(state, action.id, (f, queue) => queue(action.source
+                ? { ...f, localSource: action.source, label: '', isLocked: true }
+                : { ...f, localSource: null }));
+
+        // Sandbox and permissions are fixed when a document loads, so a new policy reloads the frame
+        case 'setPolicy':
+            return updateFrame(state, action.id, (f, queue) => queue({ ...f, policy: action.policy }));
+
+        case 'setReview':
+            return updateFrame(state, action.id, f => ({ ...f, review: action.review }));
+
+        case 'setProbe':
+            return updateFrame(state, action.id, f => ({ ...f, probe: action.probe }));
+
+        case 'undo':
+        case 'redo':
+            return state;
+    }
+};
+
+// Label for the undo step an action creates, or null if it isn't an undoable edit
+const getEditLabel = (state: GridState, action: GridAction): string | null => {
+    const frame = 'id' in action ? state.frames.find(f => f.id === action.id) : undefined;
+    const tile = frame ? ` ${state.frames.indexOf(frame) + 1}` : '';
+    switch (action.type) {
+        case 'navigate': return `Change URL of frame${tile}`;
+        case 'stepHistory': return `Go ${action.delta < 0 ? 'back' : 'forward'} in frame${tile}`;
+        case 'toggleLock': return `${frame?.isLocked ? 'Unlock' : 'Lock'} frame${tile}`;
+        case 'setLocked': return `${action.locked ? 'Lock' : 'Unlock'} frame${tile}`;
+        case 'setAllLocked': return action.locked ? 'Lock all frames' : 'Unlock all frames';
+        case 'setLayout': return 'Change layout';
+        case 'moveFrame': return `Move frame${tile}`;
+        case 'setDeviceProfile':
+        case 'toggleOrientation':
+        case 'setCustomSize': return `Change device of frame${tile}`;
+        case 'spreadDevices': return 'Spread devices';
+        case 'applyMatrix': return 'Apply URL matrix';
+        case 'setPolicy': return `Change policy of frame${tile}`;
+        default: return null;
+    }
+};
+
+const toFrameEdit = ({ id, currentUrl, history, historyIndex, isLocked, device, label, policy }: FrameData): FrameEdit =>
+    ({ id, currentUrl, history, historyIndex, isLocked, device, label, policy });
+
+const isSameEdit = (a: FrameData, b: FrameData) => JSON.stringify(toFrameEdit(a)) === JSON.stringify(toFrameEdit(b));
+
+const getOrder = (frames: FrameData[]) => frames.map(f => f.id);
+
+// What `after` changed relative to `before`, as it was before; null if nothing undoable changed
+const diffEdit = (before: GridState, after: GridState, label: string, mergeKey: string | null): GridEdit | null => {
+    const afterById = new Map<number, FrameData>(after.frames.map(f => [f.id, f]));
+    const frames = before.frames
+        .filter(f => afterById.has(f.id) && !isSameEdit(f, afterById.get(f.id)!))
+        .map(toFrameEdit);
+    const order = getOrder(before.frames).join() !== getOrder(after.frames).join() ? getOrder(before.frames) : null;
+    const layout = before.layout !== after.layout ? before.layout : null;
+    if (!frames.length && !order && !layout) return null;
+    return { label, mergeKey, frames, order, layout };
+};
+
+// Put the grid back the way `edit` recorded it, returning the new state and the edit that
+// reverses it (the same parts, as they are now)
+const restoreEdit = (state: GridState, edit: GridEdit): { state: GridState; reverse: GridEdit } => {
+    const editById = new Map<number, FrameEdit>(edit.frames.map(f => [f.id, f]));
+    const reverse: GridEdit = {
+        ...edit,
+        frames: state.frames.filter(f => editById.has(f.id)).map(toFrameEdit),
+        order: edit.order ? getOrder(state.frames) : null,
+        layout: edit.layout ? state.layout : null,
+    };
+
+    let next = updateFrames(state, (f, queue) => {
+        const restored = editById.get(f.id);
+        if (!restored) return f;
+        const frame = { ...f, ...restored };
+        // A different URL or policy means a different document
+        return restored.currentUrl !== f.currentUrl || restored.policy !== f.policy ? queue({ ...frame, localSource: null }) : frame;
+    });
+    if (edit.order) {
+        // Frames added since the edit keep their place at the end
+        const position = (id: number) => {
+            const index = edit.order!.indexOf(id);
+            return index === -1 ? edit.order!.length : index;
+        };
+        next = { ...next, frames: [...next.frames].sort((a, b) => position(a.id) - position(b.id)) };
+    }
+    if (edit.layout) next = { ...next, layout: edit.layout };
+    return { state: next, reverse };
+};
+
+// Actions whose consecutive edits to the same frame undo as one step
+const MERGED_ACTIONS: GridActionType[] = ['setCustomSize'];
+
+export const gridReducer = (state: GridState, action: GridAction): GridState => {
+    if (action.type === 'undo' || action.type === 'redo') {
+        const from = action.type === 'undo' ? state.past : state.future;
+        const edit = from[from.length - 1];
+        if (!edit) return state;
+        const { state: next, reverse } = restoreEdit(state, edit);
+        return action.type === 'undo'
+            ? { ...next, past: state.past.slice(0, -1), future: [...state.future, reverse] }
+            : { ...next, past: [...state.past, reverse], future: state.future.slice(0, -1) };
+    }
+
+    const next = applyAction(state, action);
+    const label = next === state ? null : getEditLabel(state, action);
+    if (!label) return next;
+
+    const mergeKey = MERGED_ACTIONS.includes(action.type) && 'id' in action ? `${action.type}:${action.id}` : null;
+    const last = state.past[state.past.length - 1];
+    // The first edit in a merged run already holds the state to go back to
+    if (mergeKey && last?.mergeKey === mergeKey) return { ...next, future: [] };
+
+    const edit = diffEdit(state, next, label, mergeKey);
+    if (!edit) return next;
+    return { ...next, past: [...state.past, edit].slice(-MAX_UNDO), future: [] };
+};
+
+export const getUndoLabel = (state: GridState) => state.past[state.past.length - 1]?.label ?? null;
+export const getRedoLabel = (state: GridState) => state.future[state.future.length - 1]?.label ?? null;
@@ -0,0 +1,208 @@
+// Local previews: pasted HTML, a single .html file, or a folder from a built static site,
+// rendered through `srcdoc` without a server. Folder assets are served from blob URLs,
+// and the entry page's relative references are rewritten to point at them.
+
+export interface LocalFile {
+    // Relative to the dropped folder, '/'-separated, without the folder's own name
+    path: string;
+    file: File;
+}
+
+export type LocalSourceKind = 'file' | 'folder' | 'paste';
+
+export interface LocalSource {
+    kind: LocalSourceKind;
+    // Shown in the frame header instead of a URL
+    name: string;
+    // Document rendered through srcdoc
+    html: string;
+    // Object URLs backing folder assets; revoked once no frame shows the source
+    blobUrls: string[];
+}
+
+const HTML_PATTERN = /\.html?$/i;
+const CSS_PATTERN = /\.css$/i;
+// Anything with a scheme, protocol-relative, or a pure fragment is left alone
+const EXTERNAL_PATTERN = /^(?:[a-z][a-z0-9+.-]*:|\/\/|#)/i;
+const CSS_URL_PATTERN = /url\(\s*(['"]?)([^'")]+)\1\s*\)|@import\s+(['"])([^'"]+)\3/gi;
+
+export const isHtmlFile = (path: string) => HTML_PATTERN.test(path);
+
+export const createPastedSource = (html: string): LocalSource => ({
+    kind: 'paste',
+    name: 'Pasted HTML',
+    html,
+    blobUrls: [],
+});
+
+export const createFileSource = async (file: File): Promise<LocalSource> => ({
+    kind: 'file',
+    name: file.name,
+    html: await file.text(),
+    blobUrls: [],
+});
+
+export const revokeLocalSource = (source: LocalSource) => {
+    source.blobUrls.forEach(url => URL.revokeObjectURL(url));
+};
+
+const decodePart = (part: string) => {
+    try {
+        return decodeURIComponent(part);
+    } catch {
+        return part;
+    }
+};
+
+const dirname = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/') + 1) : '';
+
+// Resolve `ref` against the directory `baseDir` inside the folder; null for external refs
+const resolvePath = (baseDir: string, ref: string) => {
+    const trimmed = ref.trim();
+    if (!trimmed || EXTERNAL_PATTERN.test(trimmed)) return null;
+    const path = trimmed.split(/[?#]/)[0];
+    const suffix = trimmed.slice(path.length).replace(/^\?[^#]*/, '');
+    const parts: string[] = [];
+    (path.startsWith('/') ? path.slice(1) : baseDir + path).split('/').forEach(part => {
+        if (part === '..') parts.pop();
+        else if (part && part !== '.') parts.push(decodePart(part));
+    });
+    return { path: parts.join('/'), suffix };
+};
+
+// The page to open: index.html at the top level, otherwise the shallowest HTML file
+const findEntry = (files: LocalFile[]) => {
+    const pages = files.filter(f => isHtmlFile(f.path));
+    return pages.find(f => /^index\.html?$/i.test(f.path))
+        ?? [...pages].sort((a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path))[0];
+};
+
+export const createFolderSource = async (rootName: string, files: LocalFile[]): Promise<LocalSource> => {
+    const entry = findEntry(files);
+    if (!entry) throw new Error(`"${rootName}" has no .html file to open`);
+
+    const byPath = new Map(files.map(f => [f.path, f.file]));
+    const assetUrls = new Map<string, Promise<string | null>>();
+    const blobUrls: string[] = [];
+
+    const toBlobUrl = (blob: Blob) => {
+        const url = URL.createObjectURL(blob);
+        blobUrls.push(url);
+        return url;
+    };
+
+    // `stack` holds the stylesheets being rewritten, so @import cycles don't recurse forever
+    const rewriteCss = async (css: string, baseDir: string, stack: string[] = []): Promise<string> => {
+        const replacements = await Promise.all([...css.matchAll(CSS_URL_PATTERN)].map(async match => {
+            const ref = match[2] ?? match[4];
+            const resolved = resolvePath(baseDir, ref);
+            const url = resolved && await getAssetUrl(resolved.path, stack);
+            return url ? match[0].replace(ref, url + resolved.suffix) : match[0];
+        }));
+        let i = 0;
+        return css.replace(CSS_URL_PATTERN, () => replacements[i++]);
+    };
+
+    // Stylesheets are rewritten too, so their fonts and images resolve
+    const getAssetUrl = (path: string, stack: string[] = []): Promise<string | null> => {
+        const file = byPath.get(path);
+        if (!file || isHtmlFile(path) || stack.includes(path)) return Promise.resolve(null);
+        let url = assetUrls.get(path);
+        if (!url) {
+            url = CSS_PATTERN.test(path)
+                ? file.text()
+                    .then(css => rewriteCss(css, dirname(path), [...stack, path]))
+                    .then(css => toBlobUrl(new Blob([css], { type: 'text/css' })))
+                : Promise.resolve(toBlobUrl(file));
+            assetUrls.set(path, url);
+        }
+        return url;
+    };
+
+    const baseDir = dirname(entry.path);
+    const doc = new DOMParser().parseFromString(await entry.file.text(), 'text/html');
+
+    const rewriteAttribute = async (el: Element, name: string) => {
+        const value = el.getAttribute(name);
+        const resolved = value && resolvePath(baseDir, value);
+        const url = resolved && await getAssetUrl(resolved.path);
+        if (url) el.setAttribute(name, url + resolved.suffix);
+    };
+
+    const tasks: Promise<void>[] = [];
+    doc.querySelectorAll('[src], [href], [poster], [data]').forEach(el => {
+        ['src', 'href', 'poster', 'data'].forEach(name => {
+            // Links to other pages stay as they are; only assets are rewritten
+            if (el.hasAttribute(name)) tasks.push(rewriteAttribute(el, name));
+        });
+    });
+    doc.querySelectorAll('[srcset]').forEach(el => {
+        tasks.push((async () => {
+            const candidates = await Promise.all((el.getAttribute('srcset') ?? '').split(',').map(async candidate => {
+                const [ref, ...descriptor] = candidate.trim().split(/\s+/);
+                const resolved = resolvePath(baseDir, ref);
+                const url = resolved && await getAssetUrl(resolved.path);
+                return [url ? url + resolved.suffix : ref, ...descriptor].join(' ');
+            }));
+            el.setAttribute('srcset', candidates.join(', '));
+        })());
+    });
+    doc.querySelectorAll('style').forEach(el => {
+        tasks.push(rewriteCss(el.textContent ?? '', baseDir).then(css => { el.textContent = css; }));
+    });
+    doc.querySelectorAll('[style]').forEach(el => {
+        tasks.push(rewriteCss(el.getAttribute('style') ?? '', baseDir).then(css => el.setAttribute('style', css)));
+    });
+    await Promise.all(tasks);
+
+    const doctype = doc.doctype ? `<!DOCTYPE ${doc.doctype.name}>\n` : '';
+    return {
+        kind: 'folder',
+        name: `${rootName}/${entry.path}`,
+        html: doctype + doc.documentElement.outerHTML,
+        blobUrls,
+    };
+};
+
+const readEntryFiles = async (entry: FileSystemEntry, prefix: string): Promise<LocalFile[]> => {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        return [{ path: prefix + entry.name, file }];
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns results in batches until it comes back empty
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (!batch.length) break;
+        children.push(...batch);
+    }
+    const nested = await Promise.all(children.map(child => readEntryFiles(child, `${prefix}${entry.name}/`)));
+    return nested.flat();
+};
+
+// Turns a drop (one HTML file or one folder) into a local source
+export const readDroppedSource = (dataTransfer: DataTransfer): Promise<LocalSource> => {
+    // Entries must be taken synchronously, before the drop event returns
+    const entry = Array.from(dataTransfer.items).map(item => item.webkitGetAsEntry?.()).find(Boolean);
+    const file = dataTransfer.files[0];
+
+    if (entry?.isDirectory) {
+        return readEntryFiles(entry, '').then(files => createFolderSource(
+            entry.name,
+            files.map(f => ({ ...f, path: f.path.slice(entry.name.length + 1) }))
+        ));
+    }
+    if (file && isHtmlFile(file.name)) return createFileSource(file);
+    return Promise.reject(new Error('Drop an .html file or a folder containing one'));
+};
+
+// Files picked through <input webkitdirectory>, which carry their path in webkitRelativePath
+export const readPickedFolder = (fileList: FileList): Promise<LocalSource> => {
+    const files = Array.from(fileList);
+    const rootName = files[0]?.webkitRelativePath.split('/')[0] ?? 'folder';
+    return createFolderSource(rootName, files.map(file => ({
+        path: file.webkitRelativePath.split('/').slice(1).join('/'),
+        file,
+    })));
+};
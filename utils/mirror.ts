@@ -0,0 +1,92 @@
+// Scroll and navigation mirroring between frames.
+//
+// Same-origin frames are mirrored directly through their `contentWindow`. Cross-origin
+// pages opt in by loading the mirror script (public/omniview-mirror.js), which speaks
+// this postMessage protocol with the grid. Every message is a plain object tagged with
+// `omniview: 'mirror'` and the protocol `version`:
+//
+//   page -> grid
+//     { type: 'hello', url }          The page can be mirrored. Sent on load and in reply to 'ping'.
+//     { type: 'scroll', x, y }        The user scrolled; x and y are relative positions from 0 to 1.
+//     { type: 'navigate', url }       The page changed its URL in place (pushState, popstate, hash).
+//
+//   grid -> page
+//     { type: 'ping' }                Ask the page to announce itself with 'hello'.
+//     { type: 'scroll-to', x, y }     Scroll to the same relative position.
+//     { type: 'navigate-to', path }   Go to path + query + hash on the page's own origin, so
+//                                     mirrored environments (staging vs production) stay on theirs.
+//
+// A page that neither is same-origin nor answers 'ping' within MIRROR_HANDSHAKE_TIMEOUT
+// is reported as not mirrorable.
+
+export const MIRROR_PROTOCOL = 'mirror';
+export const MIRROR_PROTOCOL_VERSION = 1;
+export const MIRROR_HANDSHAKE_TIMEOUT = 1500;
+
+// How long the frame that scrolled keeps the lead, so followers echoing the
+// scroll back don't start a ping-pong
+export const MIRROR_LEAD_MS = 300;
+
+export type MirrorSupport = 'pending' | 'same-origin' | 'script' | 'none';
+
+export type MirrorPageMessage =
+    | { type: 'hello'; url: string }
+    | { type: 'scroll'; x: number; y: number }
+    | { type: 'navigate'; url: string };
+
+export type MirrorHostMessage =
+    | { type: 'ping' }
+    | { type: 'scroll-to'; x: number; y: number }
+    | { type: 'navigate-to'; path: string };
+
+export const toMirrorMessage = (message: MirrorHostMessage) => ({
+    omniview: MIRROR_PROTOCOL,
+    version: MIRROR_PROTOCOL_VERSION,
+    ...message,
+});
+
+const isFraction = (value: unknown): value is number =>
+    typeof value === 'number' && value >= 0 && value <= 1;
+
+// Validates a message posted by a page; anything else on the channel is ignored
+export const parseMirrorMessage = (data: unknown): MirrorPageMessage | null => {
+    if (!data || typeof data !== 'object') return null;
+    const raw = data as Record<string, unknown>;
+    if (raw.omniview !== MIRROR_PROTOCOL || raw.version !== MIRROR_PROTOCOL_VERSION) return null;
+
+    switch (raw.type) {
+        case 'hello':
+        case 'navigate':
+            return typeof raw.url === 'string' ? { type: raw.type, url: raw.url } : null;
+        case 'scroll':
+            return isFraction(raw.x) && isFraction(raw.y) ? { type: 'scroll', x: raw.x, y: raw.y } : null;
+        default:
+            return null;
+    }
+};
+
+// Scroll offset of a window as a 0-1 fraction of how far it can scroll on each axis
+export const getRelativeScroll = (win: Window) => {
+    const doc = win.document.documentElement;
+    const maxX = doc.scrollWidth - win.innerWidth;
+    const maxY = doc.scrollHeight - win.innerHeight;
+    return {
+        x: maxX > 0 ? Math.min(1, win.scrollX / maxX) : 0,
+        y: maxY > 0 ? Math.min(1, win.scrollY / maxY) : 0,
+    };
+};
+
+export const scrollToRelative = (win: Window, x: number, y: number) => {
+    const doc = win.document.documentElement;
+    win.scrollTo(x * (doc.scrollWidth - win.innerWidth), y * (doc.scrollHeight - win.innerHeight));
+};
+
+// The origin-independent part of a URL that gets mirrored to other frames
+export const toMirrorPath = (url: string) => {
+    try {
+        const parsed = new URL(url);
+        return `${parsed.pathname}${parsed.search}${parsed.hash}`;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,169 @@
+// QA sign-off: a verdict, notes and checklist per frame, exported as a Markdown or JSON
+// report that can be attached to a release ticket.
+import { FrameDevice, getDeviceProfile, isFillDevice, formatViewport } from './devices';
+import { FrameStatus, formatLoadTime } from './frameLoad';
+
+export type QaVerdict = 'untested' | 'pass' | 'fail' | 'blocked';
+
+export const QA_VERDICTS: { id: QaVerdict; label: string }[] = [
+    { id: 'untested', label: 'Untested' },
+    { id: 'pass', label: 'Pass' },
+    { id: 'fail', label: 'Fail' },
+    { id: 'blocked', label: 'Blocked' },
+];
+
+export interface QaChecklistItem {
+    text: string;
+    done: boolean;
+}
+
+export interface FrameReview {
+    verdict: QaVerdict;
+    notes: string;
+    checklist: QaChecklistItem[];
+    // Last time the verdict, notes or checklist changed (epoch ms)
+    reviewedAt: number | null;
+}
+
+export const DEFAULT_REVIEW: FrameReview = { verdict: 'untested', notes: '', checklist: [], reviewedAt: null };
+
+export const QA_CHECKLIST_TEMPLATES: { id: string; label: string; items: string[] }[] = [
+    {
+        id: 'smoke',
+        label: 'Smoke test',
+        items: ['Page loads without errors', 'Primary navigation works', 'Forms submit', 'Login and logout work'],
+    },
+    {
+        id: 'visual',
+        label: 'Visual',
+        items: ['Layout matches the design', 'No horizontal scrolling', 'Text does not overflow or overlap', 'Images and icons load'],
+    },
+    {
+        id: 'a11y',
+        label: 'Accessibility',
+        items: ['Keyboard focus is visible', 'Everything is reachable by keyboard', 'Images have alt text', 'Text contrast is sufficient'],
+    },
+];
+
+export const isQaVerdict = (value: unknown): value is QaVerdict =>
+    QA_VERDICTS.some(v => v.id === value);
+
+export const getVerdictLabel = (verdict: QaVerdict) =>
+    QA_VERDICTS.find(v => v.id === verdict)?.label ?? verdict;
+
+// Stamp a change to a review with the time it was made
+export const updateReview = (review: FrameReview, changes: Partial<Omit<FrameReview, 'reviewedAt'>>): FrameReview =>
+    ({ ...review, ...changes, reviewedAt: Date.now() });
+
+// Append a template's items, skipping ones the checklist already has
+export const applyChecklistTemplate = (checklist: QaChecklistItem[], templateId: string): QaChecklistItem[] => {
+    const template = QA_CHECKLIST_TEMPLATES.find(t => t.id === templateId);
+    if (!template) return checklist;
+    const existing = new Set(checklist.map(item => item.text.toLowerCase()));
+    return [...checklist, ...template.items.filter(text => !existing.has(text.toLowerCase())).map(text => ({ text, done: false }))];
+};
+
+// "done/total", or '' for an empty checklist
+export const formatChecklistProgress = (checklist: QaChecklistItem[]) =>
+    checklist.length ? `${checklist.filter(item => item.done).length}/${checklist.length}` : '';
+
+export interface QaReportInput {
+    frame: number;
+    // URL, or the local preview's name
+    url: string;
+    label: string;
+    device: FrameDevice;
+    status: FrameStatus;
+    loadTimeMs: number | null;
+    review: FrameReview;
+}
+
+export interface QaReport {
+    generatedAt: string;
+    masterUrl: string;
+    summary: Record<QaVerdict, number>;
+    frames: {
+        frame: number;
+        url: string;
+        label: string;
+        device: { profile: string; viewport: string | null; landscape: boolean };
+        status: FrameStatus;
+        loadTimeMs: number | null;
+        verdict: QaVerdict;
+        notes: string;
+        checklist: QaChecklistItem[];
+        reviewedAt: string | null;
+    }[];
+}
+
+export const buildQaReport = (frames: QaReportInput[], masterUrl: string, generatedAt = new Date()): QaReport => {
+    const summary = Object.fromEntries(QA_VERDICTS.map(v => [v.id, 0])) as Record<QaVerdict, number>;
+    frames.forEach(f => summary[f.review.verdict]++);
+    return {
+        generatedAt: generatedAt.toISOString(),
+        masterUrl,
+        summary,
+        frames: frames.map(f => ({
+            frame: f.frame,
+            url: f.url,
+            label: f.label,
+            device: {
+                profile: getDeviceProfile(f.device.profileId).label,
+                viewport: isFillDevice(f.device) ? null : formatViewport(f.device),
+                landscape: f.device.landscape,
+            },
+            status: f.status,
+            loadTimeMs: f.loadTimeMs === null ? null : Math.round(f.loadTimeMs),
+            verdict: f.review.verdict,
+            notes: f.review.notes,
+            checklist: f.review.checklist,
+            reviewedAt: f.review.reviewedAt === null ? null : new Date(f.review.reviewedAt).toISOString(),
+        })),
+    };
+};
+
+export const toJsonReport = (report: QaReport) => JSON.stringify(report, null, 2);
+
+// Pipes and line breaks would end a Markdown table cell early
+const escapeCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+const formatDevice = (device: QaReport['frames'][number]['device']) =>
+    device.viewport ? `${device.profile} (${device.viewport})` : device.profile;
+
+const formatLoad = (frame: QaReport['frames'][number]) =>
+    frame.loadTimeMs === null ? frame.status : `${formatLoadTime(frame.loadTimeMs)} (${frame.status})`;
+
+export const toMarkdownReport = (report: QaReport) => {
+    const lines = [
+        '# OmniView QA Report',
+        '',
+        `Generated: ${report.generatedAt}`,
+        ...(report.masterUrl ? [`Master URL: ${report.masterUrl}`] : []),
+        '',
+        QA_VERDICTS.map(v => `${v.label}: ${report.summary[v.id]}`).join(' · '),
+        '',
+        '| # | URL | Device | Verdict | Checklist | Load | Reviewed |',
+        '| --- | --- | --- | --- | --- | --- | --- |',
+        ...report.frames.map(f => `| ${[
+            `#${f.frame}`,
+            escapeCell(f.url || '(empty)'),
+            escapeCell(formatDevice(f.device)),
+            getVerdictLabel(f.verdict),
+            formatChecklistProgress(f.checklist) || '–',
+            formatLoad(f),
+            f.reviewedAt ?? '–',
+        ].join(' | ')} |`),
+    ];
+
+    report.frames.filter(f => f.notes.trim() || f.checklist.length).forEach(f => {
+        lines.push('', `## #${f.frame} ${getVerdictLabel(f.verdict)}${f.label ? ` · ${f.label}` : ''}`, '', f.url || '(empty)');
+        if (f.checklist.length) {
+            lines.push('', ...f.checklist.map(item => `- [${item.done ? 'x' : ' '}] ${item.text}`));
+        }
+        if (f.notes.trim()) {
+            lines.push('', ...f.notes.trim().split('\n').map(line => `> ${line}`));
+        }
+    });
+
+    return lines.join('\n') + '\n';
+};
@@ -0,0 +1,40 @@
+// Global most-recently-used URL list, persisted to localStorage and used for autocomplete.
+
+const STORAGE_KEY = 'omniview.recentUrls';
+const CHANGE_EVENT = 'omniview:recent-urls';
+const MAX_RECENT_URLS = 30;
+
+// Shared <datalist> id that every URL input autocompletes from
+export const RECENT_URLS_LIST_ID = 'omniview-recent-urls';
+
+export const getRecentUrls = (): string[] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+        return Array.isArray(parsed) ? parsed.filter((u): u is string => typeof u === 'string') : [];
+    } catch {
+        return [];
+    }
+};
+
+export const addRecentUrl = (url: string) => {
+    const next = [url, ...getRecentUrls().filter(u => u !== url)].slice(0, MAX_RECENT_URLS);
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+        // Storage full or unavailable: the URL just isn't remembered
+    }
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+// Notifies on changes from this tab and from other tabs
+export const subscribeRecentUrls = (listener: () => void) => {
+    const handleStorage = (e: StorageEvent) => {
+        if (e.key === STORAGE_KEY) listener();
+    };
+    window.addEventListener(CHANGE_EVENT, listener);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+        window.removeEventListener(CHANGE_EVENT, listener);
+        window.removeEventListener('storage', handleStorage);
+    };
+};
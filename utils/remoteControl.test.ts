@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+    RemoteEvent,
+    validateCommand,
+    validateEvent,
+    parseRemoteMessage,
+    toCommandMessage,
+    toResultMessage,
+    toEventMessage,
+    isTrustedRemoteOrigin,
+} from './remoteControl';
+
+const STATE_EVENT: RemoteEvent = {
+    type: 'state',
+    masterUrl: 'https://example.com',
+    layout: '2x2',
+    frames: [{ frame: 1, url: 'https://example.com', name: '', status: 'loaded', locked: false, loadTimeMs: 420 }],
+    workspaces: [{ id: 'abc', name: 'Checkout' }],
+};
+
+describe('validateCommand', () => {
+    it('accepts every command with its required fields', () => {
+        expect(validateCommand({ type: 'setMasterUrl', url: 'example.com' })).toEqual({ ok: true, command: { type: 'setMasterUrl', url: 'example.com' } });
+        expect(validateCommand({ type: 'lock', frame: 2, locked: true }).ok).toBe(true);
+        expect(validateCommand({ type: 'setLayout', layout: 'main-strip' }).ok).toBe(true);
+        expect(validateCommand({ type: 'refreshAll' }).ok).toBe(true);
+    });
+
+    it('drops fields the schema does not know', () => {
+        expect(validateCommand({ type: 'refresh', frame: 1, extra: '<script>' }).command).toEqual({ type: 'refresh', frame: 1 });
+    });
+
+    it('explains what is wrong with a command', () => {
+        expect(validateCommand(null).error).toBe('Command must be an object');
+        expect(validateCommand('refreshAll').error).toBe('Command must be an object');
+        expect(validateCommand({ type: 'explode' }).error).toBe('Unknown command "explode"');
+        expect(validateCommand({ type: 'toString' }).error).toBe('Unknown command "toString"');
+        expect(validateCommand({ type: 'setFrameUrl', frame: 0, url: 'a.com' }).error).toBe('setFrameUrl: "frame" must be a tile number (1 or more)');
+        expect(validateCommand({ type: 'setFrameUrl', frame: 1.5, url: 'a.com' }).ok).toBe(false);
+        expect(validateCommand({ type: 'lock', frame: 1, locked: 'yes' }).error).toBe('lock: "locked" must be true or false');
+        expect(validateCommand({ type: 'setLayout', layout: 'spiral' }).error).toBe('setLayout: "layout" must be a layout preset');
+    });
+});
+
+describe('validateEvent', () => {
+    it('accepts well-formed events', () => {
+        expect(validateEvent(STATE_EVENT)).toEqual(STATE_EVENT);
+        expect(validateEvent({ type: 'frameLoaded', frame: 1, url: 'https://a.test', loadTimeMs: null })).not.toBeNull();
+        expect(validateEvent({ type: 'frameError', frame: 3, url: 'https://a.test', status: 'timeout', detail: 'No load event' })).not.toBeNull();
+    });
+
+    it('rejects unknown or malformed events', () => {
+        expect(validateEvent({ type: 'explode' })).toBeNull();
+        expect(validateEvent({ type: 'frameLoaded', frame: 1, url: 'https://a.test' })).toBeNull();
+        expect(validateEvent({ type: 'frameError', frame: 1, url: 'https://a.test', status: 'loaded', detail: '' })).toBeNull();
+        expect(validateEvent({ ...STATE_EVENT, frames: [{ ...STATE_EVENT.frames[0], status: 'exploded' }] })).toBeNull();
+        expect(validateEvent({ ...STATE_EVENT, workspaces: [{ id: 1 }] })).toBeNull();
+        expect(validateEvent({ ...STATE_EVENT, frames: 'all' })).toBeNull();
+    });
+});
+
+describe('parseRemoteMessage', () => {
+    it('reads the messages built by the to*Message helpers', () => {
+        expect(parseRemoteMessage(toCommandMessage({ type: 'refresh', frame: 1 }, 'r1'))).toEqual({ kind: 'command', requestId: 'r1', command: { type: 'refresh', frame: 1 } });
+        expect(parseRemoteMessage(toResultMessage('r1', 'No such frame'))).toEqual({ kind: 'result', requestId: 'r1', ok: false, error: 'No such frame' });
+        expect(parseRemoteMessage(toEventMessage(STATE_EVENT))).toEqual({ kind: 'event', event: STATE_EVENT });
+    });
+
+    it('ignores messages from other protocols, versions or with invalid events', () => {
+        expect(parseRemoteMessage(null)).toBeNull();
+        expect(parseRemoteMessage({ kind: 'command', command: { type: 'refreshAll' } })).toBeNull();
+        expect(parseRemoteMessage({ ...toCommandMessage({ type: 'refreshAll' }), version: 99 })).toBeNull();
+        expect(parseRemoteMessage({ ...toResultMessage('r1', null), requestId: 7 })).toBeNull();
+        expect(parseRemoteMessage({ ...toEventMessage(STATE_EVENT), event: { type: 'state' } })).toBeNull();
+    });
+});
+
+describe('isTrustedRemoteOrigin', () => {
+    const own = 'http://localhost:3000';
+
+    it('takes commands from windows of the grid\'s own origin', () => {
+        expect(isTrustedRemoteOrigin(own, own)).toBe(true);
+    });
+
+    it('ignores cross-origin senders, including openers and embedding pages', () => {
+        expect(isTrustedRemoteOrigin('https://evil.example', own)).toBe(false);
+        expect(isTrustedRemoteOrigin('http://localhost:3001', own)).toBe(false);
+        expect(isTrustedRemoteOrigin('https://localhost:3000', own)).toBe(false);
+    });
+
+    it('never trusts opaque origins', () => {
+        expect(isTrustedRemoteOrigin('null', own)).toBe(false);
+        expect(isTrustedRemoteOrigin('null', 'null')).toBe(false);
+    });
+});
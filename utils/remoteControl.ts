@@ -0,0 +1,218 @@
+// Remote control: a typed command API for driving the grid from another window,
+// a controller page (controller.html) or a test script.
+//
+// Transport is a BroadcastChannel named REMOTE_CHANNEL, or window.postMessage; both only
+// reach the grid from its own origin (see isTrustedRemoteOrigin). Every message is tagged with `omniview: 'remote'` and the protocol `version`:
+//
+//   { kind: 'command', requestId?, command }     controller -> grid
+//   { kind: 'result', requestId, ok, error? }    grid -> controller, one per command
+//   { kind: 'event', event }                     grid -> every controller
+//
+// Frames are addressed by the number shown on their tile (#1, #2, ...), which follows
+// the display order. Commands are validated against COMMAND_SCHEMA before they run, and
+// events against EVENT_SCHEMA before controllers see them.
+import { LayoutPreset, isLayoutPreset } from './gridLayout';
+import { FrameStatus } from './frameLoad';
+
+export const REMOTE_CHANNEL = 'omniview-remote';
+export const REMOTE_PROTOCOL = 'remote';
+export const REMOTE_PROTOCOL_VERSION = 1;
+
+// How long a controller waits for the grid to answer a command
+const REMOTE_RESULT_TIMEOUT = 3000;
+
+export type RemoteCommand =
+    | { type: 'setMasterUrl'; url: string }
+    | { type: 'setFrameUrl'; frame: number; url: string }
+    | { type: 'lock'; frame: number; locked: boolean }
+    | { type: 'refresh'; frame: number }
+    | { type: 'refreshAll' }
+    | { type: 'setLayout'; layout: LayoutPreset }
+    // Saved workspace id or name
+    | { type: 'loadWorkspace'; workspace: string }
+    // Ask the grid to emit a 'state' event
+    | { type: 'getState' };
+
+export type RemoteCommandType = RemoteCommand['type'];
+
+export interface RemoteFrameInfo {
+    frame: number;
+    url: string;
+    // Label or local preview name, if any
+    name: string;
+    status: FrameStatus;
+    locked: boolean;
+    loadTimeMs: number | null;
+}
+
+export type RemoteEvent =
+    | { type: 'state'; masterUrl: string; layout: LayoutPreset; frames: RemoteFrameInfo[]; workspaces: { id: string; name: string }[] }
+    | { type: 'frameLoaded'; frame: number; url: string; loadTimeMs: number | null }
+    | { type: 'frameError'; frame: number; url: string; status: 'timeout' | 'blocked'; detail: string };
+
+export type RemoteFrameEvent = Extract<RemoteEvent, { type: 'frameLoaded' | 'frameError' }>;
+
+export interface RemoteResult {
+    ok: boolean;
+    error?: string;
+}
+
+export type RemoteMessage =
+    | { kind: 'command'; requestId?: string; command: unknown }
+    | { kind: 'result'; requestId: string; ok: boolean; error?: string }
+    | { kind: 'event'; event: RemoteEvent };
+
+type FieldType = 'string' | 'frame' | 'boolean' | 'layout' | 'loadTime' | 'frameStatus' | 'errorStatus' | 'frames' | 'workspaces';
+
+// Required fields (besides `type`) for every command
+export const COMMAND_SCHEMA: Record<RemoteCommandType, Record<string, FieldType>> = {
+    setMasterUrl: { url: 'string' },
+    setFrameUrl: { frame: 'frame', url: 'string' },
+    lock: { frame: 'frame', locked: 'boolean' },
+    refresh: { frame: 'frame' },
+    refreshAll: {},
+    setLayout: { layout: 'layout' },
+    loadWorkspace: { workspace: 'string' },
+    getState: {},
+};
+
+// Required fields (besides `type`) for every event
+export const EVENT_SCHEMA: Record<RemoteEvent['type'], Record<string, FieldType>> = {
+    state: { masterUrl: 'string', layout: 'layout', frames: 'frames', workspaces: 'workspaces' },
+    frameLoaded: { frame: 'frame', url: 'string', loadTimeMs: 'loadTime' },
+    frameError: { frame: 'frame', url: 'string', status: 'errorStatus', detail: 'string' },
+};
+
+const FRAME_INFO_SCHEMA: Record<keyof RemoteFrameInfo, FieldType> = {
+    frame: 'frame',
+    url: 'string',
+    name: 'string',
+    status: 'frameStatus',
+    locked: 'boolean',
+    loadTimeMs: 'loadTime',
+};
+
+const WORKSPACE_INFO_SCHEMA: Record<string, FieldType> = { id: 'string', name: 'string' };
+
+const FRAME_STATUSES: FrameStatus[] = ['idle', 'scheduled', 'loading', 'loaded', 'timeout', 'blocked', 'suspended'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const FIELD_CHECKS: Record<FieldType, { test: (value: unknown) => boolean; expected: string }> = {
+    string: { test: value => typeof value === 'string', expected: 'a string' },
+    frame: { test: value => Number.isInteger(value) && (value as number) >= 1, expected: 'a tile number (1 or more)' },
+    boolean: { test: value => typeof value === 'boolean', expected: 'true or false' },
+    layout: { test: isLayoutPreset, expected: 'a layout preset' },
+    loadTime: { test: value => value === null || (typeof value === 'number' && value >= 0), expected: 'a load time in ms, or null' },
+    frameStatus: { test: value => FRAME_STATUSES.includes(value as FrameStatus), expected: 'a frame status' },
+    errorStatus: { test: value => value === 'timeout' || value === 'blocked', expected: '"timeout" or "blocked"' },
+    frames: { test: value => Array.isArray(value) && value.every(f => !checkFields(f, FRAME_INFO_SCHEMA)), expected: 'a list of frames' },
+    workspaces: { test: value => Array.isArray(value) && value.every(w => !checkFields(w, WORKSPACE_INFO_SCHEMA)), expected: 'a list of workspaces' },
+};
+
+// Why `value` doesn't match `schema`, or null if it does
+const checkFields = (value: unknown, schema: Record<string, FieldType>): string | null => {
+    if (!isObject(value)) return 'must be an object';
+    for (const [field, fieldType] of Object.entries(schema)) {
+        const check = FIELD_CHECKS[fieldType];
+        if (!check.test(value[field])) return `"${field}" must be ${check.expected}`;
+    }
+    return null;
+};
+
+// Copies the schema's fields (and only those) from validated data
+const pickFields = (data: Record<string, unknown>, type: string, schema: Record<string, FieldType>) =>
+    Object.keys(schema).reduce<Record<string, unknown>>((picked, field) => ({ ...picked, [field]: data[field] }), { type });
+
+export type CommandCheck =
+    | { ok: true; command: RemoteCommand; error?: undefined }
+    | { ok: false; error: string; command?: undefined };
+
+export const validateCommand = (raw: unknown): CommandCheck => {
+    if (!isObject(raw)) return { ok: false, error: 'Command must be an object' };
+    const type = raw.type as RemoteCommandType;
+    if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(COMMAND_SCHEMA, type)) {
+        return { ok: false, error: `Unknown command "${String(raw.type)}"` };
+    }
+    const error = checkFields(raw, COMMAND_SCHEMA[type]);
+    if (error) return { ok: false, error: `${type}: ${error}` };
+    return { ok: true, command: pickFields(raw, type, COMMAND_SCHEMA[type]) as RemoteCommand };
+};
+
+// The event if it matches EVENT_SCHEMA, otherwise null
+export const validateEvent = (raw: unknown): RemoteEvent | null => {
+    if (!isObject(raw)) return null;
+    const type = raw.type as RemoteEvent['type'];
+    if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(EVENT_SCHEMA, type)) return null;
+    return checkFields(raw, EVENT_SCHEMA[type]) ? null : pickFields(raw, type, EVENT_SCHEMA[type]) as RemoteEvent;
+};
+
+const tag = <T extends object>(message: T) => ({
+    omniview: REMOTE_PROTOCOL,
+    version: REMOTE_PROTOCOL_VERSION,
+    ...message,
+});
+
+export const toCommandMessage = (command: RemoteCommand, requestId?: string) =>
+    tag({ kind: 'command' as const, requestId, command });
+
+export const toResultMessage = (requestId: string, error: string | null) =>
+    tag({ kind: 'result' as const, requestId, ok: !error, ...(error ? { error } : {}) });
+
+export const toEventMessage = (event: RemoteEvent) =>
+    tag({ kind: 'event' as const, event });
+
+export const parseRemoteMessage = (raw: unknown): RemoteMessage | null => {
+    if (!isObject(raw)) return null;
+    if (raw.omniview !== REMOTE_PROTOCOL || raw.version !== REMOTE_PROTOCOL_VERSION) return null;
+
+    switch (raw.kind) {
+        case 'command':
+            return { kind: 'command', requestId: typeof raw.requestId === 'string' ? raw.requestId : undefined, command: raw.command };
+        case 'result':
+            return typeof raw.requestId === 'string'
+                ? { kind: 'result', requestId: raw.requestId, ok: !!raw.ok, error: typeof raw.error === 'string' ? raw.error : undefined }
+                : null;
+        case 'event': {
+            const event = validateEvent(raw.event);
+            return event ? { kind: 'event', event } : null;
+        }
+        default:
+            return null;
+    }
+};
+
+// postMessage commands are only taken from the grid's own origin: any site can open or embed
+// the grid, and replies and events carry its URLs and workspace names. Opaque ("null")
+// origins can't be answered without posting to '*', so they're never trusted.
+export const isTrustedRemoteOrigin = (origin: string, ownOrigin: string) =>
+    origin !== 'null' && origin === ownOrigin;
+
+// Controller side of the BroadcastChannel transport
+export const createRemoteClient = (onEvent: (event: RemoteEvent) => void) => {
+    const channel = new BroadcastChannel(REMOTE_CHANNEL);
+    const pending = new Map<string, (result: RemoteResult) => void>();
+
+    channel.onmessage = (e) => {
+        const message = parseRemoteMessage(e.data);
+        if (message?.kind === 'event') {
+            onEvent(message.event);
+        } else if (message?.kind === 'result') {
+            pending.get(message.requestId)?.({ ok: message.ok, error: message.error });
+            pending.delete(message.requestId);
+        }
+    };
+
+    const send = (command: RemoteCommand) => new Promise<RemoteResult>(resolve => {
+        const requestId = Math.random().toString(36).substring(2, 10);
+        pending.set(requestId, resolve);
+        channel.postMessage(toCommandMessage(command, requestId));
+        setTimeout(() => {
+            if (!pending.has(requestId)) return;
+            pending.delete(requestId);
+            resolve({ ok: false, error: 'No grid answered. Is OmniView open in another tab?' });
+        }, REMOTE_RESULT_TIMEOUT);
+    });
+
+    return { send, close: () => channel.close() };
+};
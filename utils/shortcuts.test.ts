@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    getDefaultShortcuts,
+    loadShortcuts,
+    saveShortcuts,
+    toKeyCombo,
+    isReservedCombo,
+    isTypingTarget,
+    findShortcutConflict,
+} from './shortcuts';
+
+// Map-backed stand-in for the browser's localStorage
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+});
+
+// Just enough of the DOM element classes for isTypingTarget's instanceof checks
+class FakeElement { isContentEditable = false; }
+class FakeInput extends FakeElement { constructor(public type = 'text') { super(); } }
+class FakeTextArea extends FakeElement {}
+class FakeSelect extends FakeElement {}
+vi.stubGlobal('HTMLElement', FakeElement);
+vi.stubGlobal('HTMLInputElement', FakeInput);
+vi.stubGlobal('HTMLTextAreaElement', FakeTextArea);
+vi.stubGlobal('HTMLSelectElement', FakeSelect);
+
+beforeEach(() => storage.clear());
+
+const press = (key: string, modifiers: Partial<Record<'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey', boolean>> = {}) =>
+    toKeyCombo({ key, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...modifiers });
+
+describe('toKeyCombo', () => {
+    it('upper-cases letters and names Space', () => {
+        expect(press('k')).toBe('K');
+        expect(press(' ')).toBe('Space');
+        expect(press('ArrowLeft')).toBe('ArrowLeft');
+    });
+
+    it('writes Ctrl and Cmd alike as Mod, in a fixed modifier order', () => {
+        expect(press('k', { ctrlKey: true })).toBe('Mod+K');
+        expect(press('z', { metaKey: true, shiftKey: true })).toBe('Mod+Shift+Z');
+        expect(press('r', { altKey: true, shiftKey: true, ctrlKey: true })).toBe('Mod+Alt+Shift+R');
+    });
+
+    it('leaves Shift out of symbols it produced', () => {
+        expect(press('?', { shiftKey: true })).toBe('?');
+        expect(press('+', { shiftKey: true })).toBe('+');
+        expect(press('1', { shiftKey: true })).toBe('Shift+1');
+        expect(press('Enter', { shiftKey: true })).toBe('Shift+Enter');
+    });
+
+    it('ignores lone modifiers', () => {
+        ['Control', 'Meta', 'Shift', 'Alt', 'AltGraph', 'CapsLock'].forEach(key => expect(press(key)).toBeNull());
+    });
+});
+
+describe('isReservedCombo', () => {
+    it('reserves bare digits for selecting frames', () => {
+        expect(isReservedCombo('1')).toBe(true);
+        expect(isReservedCombo('0')).toBe(true);
+        expect(isReservedCombo('Shift+1')).toBe(false);
+        expect(isReservedCombo('10')).toBe(false);
+        expect(isReservedCombo('K')).toBe(false);
+    });
+});
+
+describe('isTypingTarget', () => {
+    it('counts text fields, text areas, selects and editable content', () => {
+        expect(isTypingTarget(new FakeInput() as unknown as EventTarget)).toBe(true);
+        expect(isTypingTarget(new FakeInput('url') as unknown as EventTarget)).toBe(true);
+        expect(isTypingTarget(new FakeTextArea() as unknown as EventTarget)).toBe(true);
+        expect(isTypingTarget(new FakeSelect() as unknown as EventTarget)).toBe(true);
+        const editable = Object.assign(new FakeElement(), { isContentEditable: true });
+        expect(isTypingTarget(editable as unknown as EventTarget)).toBe(true);
+    });
+
+    it('lets keys through from buttons, checkboxes and non-elements', () => {
+        expect(isTypingTarget(new FakeInput('checkbox') as unknown as EventTarget)).toBe(false);
+        expect(isTypingTarget(new FakeInput('range') as unknown as EventTarget)).toBe(false);
+        expect(isTypingTarget(new FakeElement() as unknown as EventTarget)).toBe(false);
+        expect(isTypingTarget({} as EventTarget)).toBe(false);
+        expect(isTypingTarget(null)).toBe(false);
+    });
+});
+
+describe('stored shortcuts', () => {
+    it('applies saved keys over the defaults and keeps other settings', () => {
+        storage.set('omniview.settings', JSON.stringify({ theme: 'dark', shortcuts: { toggleSync: 'Shift+S', zoomIn: 42, bogus: 'X' } }));
+        const shortcuts = loadShortcuts();
+        expect(shortcuts).toEqual({ ...getDefaultShortcuts(), toggleSync: 'Shift+S' });
+
+        saveShortcuts({ ...shortcuts, compare: '' });
+        expect(JSON.parse(storage.get('omniview.settings') ?? '')).toMatchObject({ theme: 'dark', shortcuts: { compare: '' } });
+        expect(loadShortcuts().compare).toBe('');
+    });
+
+    it('falls back to the defaults for corrupt or unexpected settings', () => {
+        ['{', '[1,2]', '"keys"', JSON.stringify({ shortcuts: ['S'] })].forEach(raw => {
+            storage.set('omniview.settings', raw);
+            expect(loadShortcuts()).toEqual(getDefaultShortcuts());
+        });
+    });
+
+    it('finds the other action already using a combo', () => {
+        const shortcuts = getDefaultShortcuts();
+        expect(findShortcutConflict(shortcuts, 'S', 'toggleMirror')?.id).toBe('toggleSync');
+        expect(findShortcutConflict(shortcuts, 'S', 'toggleSync')).toBeNull();
+    });
+});
@@ -0,0 +1,128 @@
+// Keyboard shortcuts: bindable actions, their default keys and the user's remapped keys,
+// which are persisted with the app settings in localStorage.
+//
+// Key combos are written as modifiers then key, e.g. "Mod+K", "Shift+R", "?". "Mod" is
+// Ctrl, or Cmd on a Mac. Shift is only spelled out for letters, digits and named keys,
+// since it is already part of symbols like "?" and "+".
+
+export type ShortcutAction =
+    | 'openPalette'
+    | 'showShortcuts'
+    | 'refreshAll'
+    | 'undo'
+    | 'redo'
+    | 'toggleSync'
+    | 'toggleMirror'
+    | 'toggleGhostMode'
+    | 'cycleLoadingDelay'
+    | 'zoomIn'
+    | 'zoomOut'
+    | 'compare'
+    | 'lockAll'
+    | 'unlockAll'
+    | 'refreshSelected'
+    | 'lockSelected'
+    | 'focusSelected'
+    | 'reviewSelected';
+
+export type ShortcutMap = Record<ShortcutAction, string>;
+
+export const SHORTCUT_ACTIONS: { id: ShortcutAction; label: string; defaultKeys: string }[] = [
+    { id: 'openPalette', label: 'Open command palette', defaultKeys: 'Mod+K' },
+    { id: 'showShortcuts', label: 'Show keyboard shortcuts', defaultKeys: '?' },
+    { id: 'refreshAll', label: 'Refresh all frames', defaultKeys: 'Shift+R' },
+    { id: 'undo', label: 'Undo grid edit', defaultKeys: 'Mod+Z' },
+    { id: 'redo', label: 'Redo grid edit', defaultKeys: 'Mod+Shift+Z' },
+    { id: 'toggleSync', label: 'Toggle Sync URLs', defaultKeys: 'S' },
+    { id: 'toggleMirror', label: 'Toggle Mirror', defaultKeys: 'M' },
+    { id: 'toggleGhostMode', label: 'Toggle Ghost Mode', defaultKeys: 'G' },
+    { id: 'cycleLoadingDelay', label: 'Next loading delay', defaultKeys: 'D' },
+    { id: 'zoomIn', label: 'Zoom in', defaultKeys: '+' },
+    { id: 'zoomOut', label: 'Zoom out', defaultKeys: '-' },
+    { id: 'compare', label: 'Toggle compare view', defaultKeys: 'C' },
+    { id: 'lockAll', label: 'Lock all frames', defaultKeys: 'Shift+L' },
+    { id: 'unlockAll', label: 'Unlock all frames', defaultKeys: 'Shift+U' },
+    { id: 'refreshSelected', label: 'Refresh selected frame', defaultKeys: 'R' },
+    { id: 'lockSelected', label: 'Lock / unlock selected frame', defaultKeys: 'L' },
+    { id: 'focusSelected', label: 'Maximize / restore selected frame', defaultKeys: 'F' },
+    { id: 'reviewSelected', label: 'QA review of selected frame', defaultKeys: 'Q' },
+];
+
+const SETTINGS_KEY = 'omniview.settings';
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Shift', 'Alt', 'AltGraph', 'CapsLock'];
+const NON_TEXT_INPUTS = ['checkbox', 'radio', 'range', 'button', 'submit', 'reset', 'color', 'file'];
+
+export const getDefaultShortcuts = () =>
+    Object.fromEntries(SHORTCUT_ACTIONS.map(a => [a.id, a.defaultKeys])) as ShortcutMap;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Stored settings, or an empty object when missing, corrupt or not an object
+const readSettings = (): Record<string, unknown> => {
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+        return isObject(parsed) ? parsed : {};
+    } catch {
+        return {};
+    }
+};
+
+// Remapped keys over the defaults; '' leaves an action unbound
+export const loadShortcuts = (): ShortcutMap => {
+    const { shortcuts: saved } = readSettings();
+    const stored = isObject(saved) ? saved : {};
+    const shortcuts = getDefaultShortcuts();
+    SHORTCUT_ACTIONS.forEach(a => {
+        const keys = stored[a.id];
+        if (typeof keys === 'string') shortcuts[a.id] = keys;
+    });
+    return shortcuts;
+};
+
+export const saveShortcuts = (shortcuts: ShortcutMap) => {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...readSettings(), shortcuts }));
+    } catch {
+        // Storage full or unavailable: the new keys still apply until reload
+    }
+};
+
+// The combo for a key press, or null for a lone modifier
+export const toKeyCombo = (e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>) => {
+    if (MODIFIER_KEYS.includes(e.key)) return null;
+    const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+    const parts: string[] = [];
+    if (e.ctrlKey || e.metaKey) parts.push('Mod');
+    if (e.altKey) parts.push('Alt');
+    if (e.shiftKey && (key.length > 1 || /^[A-Z0-9]$/.test(key))) parts.push('Shift');
+    return [...parts, key].join('+');
+};
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const MAC_MODIFIERS: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' };
+
+// "Mod+Shift+K" as "Ctrl+Shift+K", or "⌘⇧K" on a Mac (the key itself may be "+")
+export const formatKeyCombo = (combo: string) => {
+    const [, prefix, key] = /^((?:(?:Mod|Alt|Shift)\+)*)(.+)$/.exec(combo) ?? ['', '', combo];
+    const modifiers = prefix.split('+').filter(Boolean);
+    return isMac()
+        ? modifiers.map(m => MAC_MODIFIERS[m]).join('') + key
+        : [...modifiers.map(m => m === 'Mod' ? 'Ctrl' : m), key].join('+');
+};
+
+// Digits select frames and can't be rebound
+export const isReservedCombo = (combo: string) => /^[0-9]$/.test(combo);
+
+// Text fields (including the URL inputs) keep their keys; checkboxes and buttons don't count
+export const isTypingTarget = (target: EventTarget | null) => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+    return target instanceof HTMLInputElement && !NON_TEXT_INPUTS.includes(target.type);
+};
+
+// Action already bound to `combo`, other than `except`
+export const findShortcutConflict = (shortcuts: ShortcutMap, combo: string, except: ShortcutAction) =>
+    SHORTCUT_ACTIONS.find(a => a.id !== except && shortcuts[a.id] === combo) ?? null;
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { ProbeResult, checkProbeUrl, parseExpectedStatus, isExpectedStatus, getProbeHealth, addProbeSample, MAX_PROBE_SAMPLES } from './uptime';
+
+const result = (fields: Partial<ProbeResult>): ProbeResult => ({
+    url: 'https://example.com',
+    checkedAt: 0,
+    status: 200,
+    latencyMs: 120,
+    finalUrl: 'https://example.com',
+    redirects: [],
+    tls: null,
+    error: null,
+    ...fields,
+});
+
+describe('parseExpectedStatus', () => {
+    it('reads single codes, ranges and classes', () => {
+        expect(parseExpectedStatus('200')).toEqual([[200, 200]]);
+        expect(parseExpectedStatus('200-299, 301')).toEqual([[200, 299], [301, 301]]);
+        expect(parseExpectedStatus(' 2xx,4XX ')).toEqual([[200, 299], [400, 499]]);
+    });
+
+    it('rejects anything else', () => {
+        expect(parseExpectedStatus('')).toBeNull();
+        expect(parseExpectedStatus('ok')).toBeNull();
+        expect(parseExpectedStatus('299-200')).toBeNull();
+        expect(parseExpectedStatus('200, 700')).toBeNull();
+    });
+
+    it('falls back to the default expectation when invalid', () => {
+        expect(isExpectedStatus(404, '404')).toBe(true);
+        expect(isExpectedStatus(302, 'nonsense')).toBe(true);
+        expect(isExpectedStatus(500, 'nonsense')).toBe(false);
+    });
+});
+
+describe('getProbeHealth', () => {
+    it('is up for an expected status', () => {
+        expect(getProbeHealth(result({}), '2xx')).toEqual({ health: 'up', reason: 'HTTP 200 in 120ms' });
+    });
+
+    it('is down for errors and unexpected statuses', () => {
+        expect(getProbeHealth(result({ status: null, error: 'Connection refused' }), '2xx').health).toBe('down');
+        expect(getProbeHealth(result({ status: 503 }), '2xx')).toEqual({ health: 'down', reason: 'HTTP 503 (expected 2xx)' });
+    });
+
+    it('is degraded for slow responses and certificate problems', () => {
+        const tls = { protocol: 'TLSv1.3', authorized: true, error: null, issuer: 'CA', validTo: null, daysRemaining: 90 };
+        expect(getProbeHealth(result({ latencyMs: 5000 }), '2xx').health).toBe('degraded');
+        expect(getProbeHealth(result({ tls: { ...tls, daysRemaining: 3 } }), '2xx').reason).toBe('Certificate expires in 3 days');
+        expect(getProbeHealth(result({ tls: { ...tls, authorized: false, error: 'CERT_HAS_EXPIRED' } }), '2xx').health).toBe('degraded');
+        expect(getProbeHealth(result({ tls }), '2xx').health).toBe('up');
+    });
+});
+
+describe('addProbeSample', () => {
+    it(`keeps the last ${MAX_PROBE_SAMPLES} samples`, () => {
+        let samples = [] as ReturnType<typeof addProbeSample>;
+        for (let i = 0; i < MAX_PROBE_SAMPLES + 3; i++) samples = addProbeSample(samples, { at: i, health: 'up', status: 200, latencyMs: i });
+        expect(samples).toHaveLength(MAX_PROBE_SAMPLES);
+        expect(samples[0].at).toBe(3);
+    });
+});
+
+describe('checkProbeUrl', () => {
+    it('probes the normalized URL, so bare hosts from imports work', () => {
+        expect(checkProbeUrl('example.com', false)).toEqual({ ok: true, url: 'https://example.com' });
+        expect(checkProbeUrl('  http://example.com/a ', false)).toEqual({ ok: true, url: 'http://example.com/a' });
+    });
+
+    it('explains why a frame can\'t be probed', () => {
+        expect(checkProbeUrl('https://example.com', true).reason).toBe('Local previews can\'t be probed.');
+        expect(checkProbeUrl('', false).reason).toBe('Enter a URL to probe.');
+        expect(checkProbeUrl('ftp://example.com', false).reason).toBe('Only http and https URLs can be probed.');
+    });
+});
@@ -0,0 +1,217 @@
+// Uptime probes: the dev server requests a frame's URL on a schedule (the middleware in
+// services/uptimeProbe.ts, wired up in vite.config.ts) and reports the HTTP status, latency,
+// redirects and TLS details. The grid turns each result into a health state for the tile's
+// badge, keeps a short history for its sparkline, and alerts when the health changes.
+import { UrlCheck, checkUrl } from './url';
+
+export const PROBE_ENDPOINT = '/__omniview/probe';
+
+export interface ProbeRedirect {
+    status: number;
+    location: string; // Absolute URL the redirect pointed to
+}
+
+export interface ProbeTls {
+    protocol: string | null; // e.g. "TLSv1.3"
+    authorized: boolean; // Whether the certificate chain is trusted
+    error: string | null; // Why it isn't
+    issuer: string | null;
+    validTo: string | null; // ISO date
+    daysRemaining: number | null;
+}
+
+export interface ProbeResult {
+    url: string;
+    checkedAt: number;
+    // Final response after redirects; null if the server couldn't be reached
+    status: number | null;
+    latencyMs: number | null; // Until the final response's headers, redirects included
+    finalUrl: string;
+    redirects: ProbeRedirect[];
+    tls: ProbeTls | null; // Of the final response, if it was served over https
+    error: string | null;
+}
+
+export interface ProbeSettings {
+    enabled: boolean;
+    interval: number; // ms between probes
+    // Status codes that count as up, e.g. "200-299, 301" or "2xx"
+    expectedStatus: string;
+}
+
+export type ProbeHealth = 'unknown' | 'up' | 'degraded' | 'down';
+
+export interface ProbeSample {
+    at: number;
+    health: ProbeHealth;
+    status: number | null;
+    latencyMs: number | null;
+}
+
+export interface FrameProbeState {
+    url: string;
+    result: ProbeResult | null;
+    health: ProbeHealth;
+    // Why the frame has this health, e.g. "HTTP 503 (expected 200-399)"
+    reason: string;
+    samples: ProbeSample[]; // Oldest first
+    pending: boolean;
+}
+
+// How probe health changes are announced
+export type ProbeAlertMode = 'off' | 'notify' | 'sound' | 'both';
+
+export const PROBE_ALERT_MODES: { id: ProbeAlertMode; label: string }[] = [
+    { id: 'off', label: 'Off' },
+    { id: 'notify', label: 'Notification' },
+    { id: 'sound', label: 'Sound' },
+    { id: 'both', label: 'Both' },
+];
+
+export const PROBE_INTERVAL_OPTIONS = [15000, 30000, 60000, 300000, 900000];
+
+export const MIN_PROBE_INTERVAL = 5000;
+
+export const DEFAULT_PROBE: ProbeSettings = { enabled: false, interval: 60000, expectedStatus: '200-399' };
+
+// Responses slower than this, or certificates this close to expiry, count as degraded
+export const SLOW_PROBE_MS = 3000;
+export const TLS_EXPIRY_WARNING_DAYS = 14;
+
+export const MAX_PROBE_SAMPLES = 30;
+
+// Longest a single probe may take, redirects included
+export const MAX_PROBE_TIMEOUT = 30000;
+
+const STATUS_RANGE_PATTERN = /^([1-5])xx$|^(\d{3})(?:\s*-\s*(\d{3}))?$/i;
+
+export const createProbeState = (url: string): FrameProbeState =>
+    ({ url, result: null, health: 'unknown', reason: '', samples: [], pending: false });
+
+export const isProbeAlertMode = (value: unknown): value is ProbeAlertMode =>
+    PROBE_ALERT_MODES.some(m => m.id === value);
+
+// The normalized URL to probe for a frame, or why it can't be probed. Frames can hold bare
+// hosts (e.g. from an import), which the probe endpoint wouldn't parse as they are.
+// Local previews have nothing on the network to probe.
+export const checkProbeUrl = (currentUrl: string, isLocalPreview: boolean): UrlCheck => {
+    if (isLocalPreview) return { ok: false, reason: 'Local previews can\'t be probed.' };
+    if (!currentUrl) return { ok: false, reason: 'Enter a URL to probe.' };
+    const check = checkUrl(currentUrl);
+    return check.ok ? check : { ok: false, reason: 'Only http and https URLs can be probed.' };
+};
+
+// "200-299, 301, 4xx" as inclusive ranges, or null if any part isn't a status or range
+export const parseExpectedStatus = (text: string): [number, number][] | null => {
+    const parts = text.split(',').map(p => p.trim()).filter(Boolean);
+    if (!parts.length) return null;
+    const ranges: [number, number][] = [];
+    for (const part of parts) {
+        const match = STATUS_RANGE_PATTERN.exec(part);
+        if (!match) return null;
+        if (match[1]) {
+            ranges.push([Number(match[1]) * 100, Number(match[1]) * 100 + 99]);
+            continue;
+        }
+        const from = Number(match[2]);
+        const to = match[3] ? Number(match[3]) : from;
+        if (from < 100 || to > 599 || from > to) return null;
+        ranges.push([from, to]);
+    }
+    return ranges;
+};
+
+// An invalid expectation falls back to the default one
+export const isExpectedStatus = (status: number, expectedStatus: string) =>
+    (parseExpectedStatus(expectedStatus) ?? parseExpectedStatus(DEFAULT_PROBE.expectedStatus)!)
+        .some(([from, to]) => status >= from && status <= to);
+
+export const formatProbeLatency = (ms: number) => ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+export const formatProbeInterval = (ms: number) => ms < 60000 ? `${ms / 1000}s` : `${ms / 60000}m`;
+
+export const getProbeHealth = (result: ProbeResult, expectedStatus: string): { health: ProbeHealth; reason: string } => {
+    if (result.error || result.status === null) return { health: 'down', reason: result.error ?? 'No response' };
+    if (!isExpectedStatus(result.status, expectedStatus)) {
+        return { health: 'down', reason: `HTTP ${result.status} (expected ${expectedStatus})` };
+    }
+    if (result.tls && !result.tls.authorized) {
+        return { health: 'degraded', reason: `Untrusted certificate${result.tls.error ? `: ${result.tls.error}` : ''}` };
+    }
+    if (result.tls?.daysRemaining !== null && result.tls?.daysRemaining !== undefined && result.tls.daysRemaining < TLS_EXPIRY_WARNING_DAYS) {
+        return { health: 'degraded', reason: `Certificate expires in ${result.tls.daysRemaining} days` };
+    }
+    if (result.latencyMs !== null && result.latencyMs > SLOW_PROBE_MS) {
+        return { health: 'degraded', reason: `Slow response (${formatProbeLatency(result.latencyMs)})` };
+    }
+    return { health: 'up', reason: `HTTP ${result.status}${result.latencyMs === null ? '' : ` in ${formatProbeLatency(result.latencyMs)}`}` };
+};
+
+export const getHealthLabel = (health: ProbeHealth) =>
+    health === 'unknown' ? 'Unknown' : health === 'up' ? 'Up' : health === 'degraded' ? 'Degraded' : 'Down';
+
+// Results of the same probe target, newest last
+export const addProbeSample = (samples: ProbeSample[], sample: ProbeSample) =>
+    [...samples, sample].slice(-MAX_PROBE_SAMPLES);
+
+// Multi-line summary for tooltips
+export const formatProbeDetails = (state: FrameProbeState) => {
+    const { result } = state;
+    if (!result) return state.reason || 'Not checked yet';
+    const lines = [`${getHealthLabel(state.health)}: ${state.reason}`];
+    result.redirects.forEach(r => lines.push(`${r.status} → ${r.location}`));
+    if (result.tls) {
+        lines.push(`${result.tls.protocol ?? 'TLS'}${result.tls.issuer ? `, issued by ${result.tls.issuer}` : ''}`);
+        if (result.tls.daysRemaining !== null) lines.push(`Certificate valid for ${result.tls.daysRemaining} more days`);
+    }
+    lines.push(`Checked ${new Date(result.checkedAt).toLocaleTimeString()}`);
+    return lines.join('\n');
+};
+
+// Ask the dev server to probe `url`. Throws with a readable message if the probe couldn't
+// be run at all (as opposed to the target being down, which is a normal result).
+export const requestProbe = async (url: string, timeoutMs: number, signal?: AbortSignal): Promise<ProbeResult> => {
+    const params = new URLSearchParams({ url, timeout: String(Math.min(timeoutMs, MAX_PROBE_TIMEOUT)) });
+    const response = await fetch(`${PROBE_ENDPOINT}?${params}`, { signal, cache: 'no-store' });
+    if (response.status === 404) throw new Error('Uptime probes need the Vite dev or preview server');
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body) throw new Error(body?.error ?? `Probe endpoint answered HTTP ${response.status}`);
+    return body as ProbeResult;
+};
+
+// Best effort: resolves false if notifications are unsupported or were refused
+export const requestNotificationPermission = async () => {
+    if (typeof Notification === 'undefined') return false;
+    if (Notification.permission === 'granted') return true;
+    if (Notification.permission === 'denied') return false;
+    return (await Notification.requestPermission()) === 'granted';
+};
+
+export const showProbeNotification = (title: string, body: string) => {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+    new Notification(title, { body, tag: `omniview-probe-${title}` });
+};
+
+let audioContext: AudioContext | null = null;
+
+// Two short beeps: falling when a target goes down or degrades, rising when it recovers
+export const playProbeTone = (health: ProbeHealth) => {
+    try {
+        audioContext ??= new AudioContext();
+        const ctx = audioContext;
+        const notes = health === 'up' ? [660, 880] : [660, 440];
+        notes.forEach((frequency, i) => {
+            const start = ctx.currentTime + i * 0.18;
+            const osc = ctx.createOscillator();
+            const gain = ctx.createGain();
+            osc.frequency.value = frequency;
+            gain.gain.setValueAtTime(0.15, start);
+            gain.gain.exponentialRampToValueAtTime(0.001, start + 0.15);
+            osc.connect(gain).connect(ctx.destination);
+            osc.start(start);
+            osc.stop(start + 0.16);
+        });
+    } catch {
+        // No audio output (or autoplay is blocked): the badge still shows the change
+    }
+};
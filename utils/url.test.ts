@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { checkUrl, normalizeUrl } from './url';
+
+describe('normalizeUrl', () => {
+    it('adds https:// to bare hosts', () => {
+        expect(normalizeUrl('example.com')).toBe('https://example.com');
+        expect(normalizeUrl('  example.com/path?q=1  ')).toBe('https://example.com/path?q=1');
+    });
+
+    it('keeps explicit http and https URLs', () => {
+        expect(normalizeUrl('http://example.com')).toBe('http://example.com');
+        expect(normalizeUrl('HTTPS://Example.com/a')).toBe('HTTPS://Example.com/a');
+    });
+
+    it('treats host:port as a host, not a scheme', () => {
+        expect(normalizeUrl('localhost:3000')).toBe('https://localhost:3000');
+        expect(normalizeUrl('staging.internal:8080/cart')).toBe('https://staging.internal:8080/cart');
+    });
+
+    it('resolves protocol-relative URLs to https', () => {
+        expect(normalizeUrl('//cdn.example.com/page')).toBe('https://cdn.example.com/page');
+    });
+
+    it('rejects empty input', () => {
+        expect(normalizeUrl('')).toBeNull();
+        expect(normalizeUrl('   ')).toBeNull();
+    });
+});
+
+describe('checkUrl', () => {
+    it.each([
+        'javascript:alert(1)',
+        'JavaScript:alert(1)',
+        ' javascript:alert(1)',
+        'java\tscript:alert(1)',
+        'java\nscript:alert(1)',
+        'data:text/html,<script>alert(1)</script>',
+        'vbscript:msgbox(1)',
+        'file:///etc/passwd',
+        'blob:https://example.com/1234',
+    ])('rejects unsafe scheme in %j', input => {
+        const result = checkUrl(input);
+        expect(result.ok).toBe(false);
+    });
+
+    it('explains why a URL was rejected', () => {
+        expect(checkUrl('javascript:void(0)')).toEqual({ ok: false, reason: '"javascript:" URLs are not allowed' });
+    });
+
+    it('rejects input that is not a URL', () => {
+        expect(checkUrl('http://').ok).toBe(false);
+        expect(checkUrl('https://exa mple.com').ok).toBe(false);
+    });
+});
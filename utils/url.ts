@@ -0,0 +1,55 @@
+// URL normalization and safety checks shared by every place a user can enter a URL.
+
+export type UrlCheck =
+    | { ok: true; url: string; reason?: undefined }
+    | { ok: false; reason: string; url?: undefined };
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+
+// "scheme:" prefix, as opposed to "host:port"
+const SCHEME_PATTERN = /^([a-z][a-z0-9+.-]*):/i;
+const HOST_PORT_PATTERN = /^[^/?#:]+:\d+(?:[/?#]|$)/;
+
+// Browsers drop tabs and newlines inside URLs ("java\tscript:" runs as javascript:),
+// so strip them, along with other control characters, before looking at the scheme.
+// eslint-disable-next-line no-control-regex
+const stripControlChars = (input: string) => input.replace(/[\u0000-\u001F\u007F]/g, '');
+
+// Normalizes user input into an absolute http(s) URL: bare hosts get https://,
+// protocol-relative URLs get https:, and any other scheme is rejected.
+export const checkUrl = (input: string): UrlCheck => {
+    const trimmed = stripControlChars(input).trim();
+    if (!trimmed) return { ok: false, reason: 'Enter a URL' };
+
+    let candidate = trimmed;
+    if (candidate.startsWith('//')) {
+        candidate = `https:${candidate}`;
+    } else {
+        const scheme = candidate.match(SCHEME_PATTERN);
+        if (!scheme || HOST_PORT_PATTERN.test(candidate)) {
+            candidate = `https://${candidate}`;
+        } else if (!ALLOWED_PROTOCOLS.includes(`${scheme[1].toLowerCase()}:`)) {
+            return { ok: false, reason: `"${scheme[1].toLowerCase()}:" URLs are not allowed` };
+        }
+    }
+
+    let parsed: URL;
+    try {
+        parsed = new URL(candidate);
+    } catch {
+        return { ok: false, reason: 'Not a valid URL' };
+    }
+    if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+        return { ok: false, reason: `"${parsed.protocol}" URLs are not allowed` };
+    }
+    if (!parsed.hostname) return { ok: false, reason: 'URL has no host' };
+
+    // Keep what the user typed (minus whitespace) rather than URL's re-serialization,
+    // so e.g. "example.com" shows as "https://example.com" and not "https://example.com/"
+    return { ok: true, url: candidate };
+};
+
+export const normalizeUrl = (input: string) => {
+    const result = checkUrl(input);
+    return result.ok ? result.url : null;
+};
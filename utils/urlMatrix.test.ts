@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_MATRIX,
+    MAX_MATRIX_ENTRIES,
+    extractVariables,
+    syncVariables,
+    expandTemplate,
+    parseUrlList,
+    expandMatrix,
+    countMatrix,
+} from './urlMatrix';
+
+const vars = (values: Record<string, string>) => Object.entries(values).map(([name, v]) => ({ name, values: v }));
+
+describe('extractVariables', () => {
+    it('lists each placeholder once, in order of first appearance', () => {
+        expect(extractVariables('https://{env}.x.com/{locale}/{env}?v={_v-2}')).toEqual(['env', 'locale', '_v-2']);
+        expect(extractVariables('https://x.com/{1bad}/{}')).toEqual([]);
+    });
+
+    it('keeps values already entered when the template changes', () => {
+        const synced = syncVariables('https://{locale}.x.com/{flag}', vars({ env: 'prod', locale: 'de, fr' }));
+        expect(synced).toEqual(vars({ locale: 'de, fr', flag: '' }));
+    });
+});
+
+describe('expandTemplate', () => {
+    it('expands the cross product with the first variable varying slowest', () => {
+        const entries = expandTemplate('https://{env}.x.com/{locale}', vars({ env: 'prod, staging', locale: 'de,fr,,' }));
+        expect(entries).toEqual([
+            { url: 'https://prod.x.com/de', label: 'env=prod · locale=de' },
+            { url: 'https://prod.x.com/fr', label: 'env=prod · locale=fr' },
+            { url: 'https://staging.x.com/de', label: 'env=staging · locale=de' },
+            { url: 'https://staging.x.com/fr', label: 'env=staging · locale=fr' },
+        ]);
+    });
+
+    it('fills repeated placeholders with the same value', () => {
+        expect(expandTemplate('https://{env}.x.com/{env}', vars({ env: 'a' }))).toEqual([{ url: 'https://a.x.com/a', label: 'env=a' }]);
+    });
+
+    it('gives a template without placeholders as a single entry', () => {
+        expect(expandTemplate('https://x.com', [])).toEqual([{ url: 'https://x.com', label: '' }]);
+        expect(expandTemplate('   ', [])).toEqual([]);
+    });
+
+    it('expands nothing while a variable has no values', () => {
+        expect(expandTemplate('https://{env}.x.com/{locale}', vars({ env: 'prod', locale: ' , ' }))).toEqual([]);
+        expect(expandTemplate('https://{env}.x.com/{locale}', vars({ env: 'prod' }))).toEqual([]);
+    });
+
+    it('stops at the limit, keeping the leading combinations', () => {
+        const entries = expandTemplate('https://x.com/{a}/{b}', vars({ a: '1,2,3', b: '1,2,3' }), 4);
+        expect(entries.map(e => e.url)).toEqual(['https://x.com/1/1', 'https://x.com/1/2', 'https://x.com/1/3', 'https://x.com/2/1']);
+    });
+});
+
+describe('URL lists', () => {
+    it('takes one URL per line, skipping blanks and comments', () => {
+        expect(parseUrlList('https://a.com\n\n  # staging\n  https://b.com  \n')).toEqual([
+            { url: 'https://a.com', label: '' },
+            { url: 'https://b.com', label: '' },
+        ]);
+    });
+});
+
+describe('expandMatrix', () => {
+    const values = Array.from({ length: 20 }, (_, i) => i).join(',');
+    const huge = { ...DEFAULT_MATRIX, template: 'https://x.com/{a}/{b}/{c}', variables: vars({ a: values, b: values, c: values }) };
+
+    it('caps large cross products but still counts them', () => {
+        expect(expandMatrix(huge)).toHaveLength(MAX_MATRIX_ENTRIES);
+        expect(countMatrix(huge)).toBe(8000);
+    });
+
+    it('uses the mode the matrix is in', () => {
+        const matrix = { ...huge, mode: 'list' as const, list: 'https://a.com\nhttps://b.com\nhttps://c.com' };
+        expect(expandMatrix(matrix, 2).map(e => e.url)).toEqual(['https://a.com', 'https://b.com']);
+        expect(countMatrix(matrix)).toBe(3);
+        expect(countMatrix({ ...DEFAULT_MATRIX, template: 'https://{env}.x.com' })).toBe(0);
+    });
+});
@@ -0,0 +1,89 @@
+// URL matrix: expand a template like https://{env}.example.com/{locale} over lists of
+// variable values, or take a pasted list of URLs, to give each frame its own target.
+
+export interface MatrixVariable {
+    name: string;
+    // Comma-separated, kept as typed so the input doesn't fight the user
+    values: string;
+}
+
+export interface UrlMatrix {
+    mode: 'template' | 'list';
+    template: string;
+    variables: MatrixVariable[];
+    list: string;
+}
+
+export interface MatrixEntry {
+    url: string;
+    // Variable assignments shown on the tile, e.g. "env=staging · locale=de"
+    label: string;
+}
+
+export const DEFAULT_MATRIX: UrlMatrix = {
+    mode: 'template',
+    template: '',
+    variables: [],
+    list: '',
+};
+
+const VARIABLE_PATTERN = /\{([a-zA-Z_][\w-]*)\}/g;
+
+// Unique variable names in order of first appearance
+export const extractVariables = (template: string) =>
+    Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), m => m[1])));
+
+// Re-derive the variable list after the template changes, keeping values already entered
+export const syncVariables = (template: string, variables: MatrixVariable[]): MatrixVariable[] =>
+    extractVariables(template).map(name => variables.find(v => v.name === name) ?? { name, values: '' });
+
+export const parseValues = (values: string) =>
+    values.split(',').map(v => v.trim()).filter(Boolean);
+
+// Frames can't take more than a few dozen URLs, and the matrix re-expands on every keystroke,
+// so cross products are only built up to this many entries (see countMatrix for the total)
+export const MAX_MATRIX_ENTRIES = 100;
+
+// Each variable's values in order of first appearance, or null while any variable has none
+const getValueLists = (template: string, variables: MatrixVariable[]) => {
+    if (!template.trim()) return null;
+    const lists = extractVariables(template).map(name => ({
+        name,
+        values: parseValues(variables.find(v => v.name === name)?.values ?? ''),
+    }));
+    return lists.some(l => l.values.length === 0) ? null : lists;
+};
+
+// Cross product of all variable values, up to `limit` entries; the first variable varies slowest
+export const expandTemplate = (template: string, variables: MatrixVariable[], limit = MAX_MATRIX_ENTRIES): MatrixEntry[] => {
+    const lists = getValueLists(template, variables);
+    if (!lists) return [];
+
+    // Later variables vary faster, so only the first `limit` partial combinations lead to kept entries
+    let combos: Array<Record<string, string>> = [{}];
+    for (const { name, values } of lists) {
+        combos = combos.flatMap(combo => values.map(value => ({ ...combo, [name]: value }))).slice(0, limit);
+    }
+
+    return combos.map(combo => ({
+        url: template.replace(VARIABLE_PATTERN, (_, name: string) => combo[name]),
+        label: lists.map(({ name }) => `${name}=${combo[name]}`).join(' · '),
+    }));
+};
+
+// One URL per line; blank lines and "#" comments are skipped
+export const parseUrlList = (text: string): MatrixEntry[] =>
+    text.split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(url => ({ url, label: '' }));
+
+export const expandMatrix = (matrix: UrlMatrix, limit = MAX_MATRIX_ENTRIES) =>
+    matrix.mode === 'list' ? parseUrlList(matrix.list).slice(0, limit) : expandTemplate(matrix.template, matrix.variables, limit);
+
+// How many URLs the matrix describes, without expanding it
+export const countMatrix = (matrix: UrlMatrix) => {
+    if (matrix.mode === 'list') return parseUrlList(matrix.list).length;
+    const lists = getValueLists(matrix.template, matrix.variables);
+    return lists ? lists.reduce((total, l) => total * l.values.length, 1) : 0;
+};
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    Workspace,
+    WORKSPACE_SCHEMA_VERSION,
+    DEFAULT_GRID_VIEW,
+    normalizeSnapshot,
+    readSnapshotPayload,
+    toSnapshotPayload,
+    serializeWorkspaces,
+    parseWorkspaceExport,
+    loadSession,
+    saveSession,
+    loadWorkspaces,
+} from './workspaces';
+import { DEFAULT_DEVICE } from './devices';
+import { DEFAULT_FRAME_COUNT } from './gridLayout';
+import { DEFAULT_FRAME_POLICY } from './framePolicy';
+import { DEFAULT_REVIEW } from './qaReview';
+import { DEFAULT_PROBE } from './uptime';
+
+const exportOf = (fields: object) => JSON.stringify({ format: 'omniview-workspaces', version: WORKSPACE_SCHEMA_VERSION, ...fields });
+
+// Map-backed stand-in for the browser's localStorage
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+});
+
+beforeEach(() => storage.clear());
+
+describe('normalizeSnapshot', () => {
+    it('falls back to defaults for anything that is not a snapshot', () => {
+        [null, undefined, 'grid', 42, [], { frames: 'many' }].forEach(raw => {
+            const snapshot = normalizeSnapshot(raw);
+            expect(snapshot.masterUrl).toBe('');
+            expect(snapshot.layout).toBe('auto');
+            expect(snapshot.scale).toBe(DEFAULT_GRID_VIEW.scale);
+            expect(snapshot.frames).toHaveLength(DEFAULT_FRAME_COUNT);
+        });
+    });
+
+    it('replaces invalid fields one by one and keeps the valid ones', () => {
+        const snapshot = normalizeSnapshot({
+            masterUrl: 'https://example.com',
+            layout: 'hexagonal',
+            scale: 4,
+            isSyncing: 'yes',
+            loadingDelay: 0,
+            maxConcurrent: 1.5,
+            probeAlerts: 'siren',
+            frames: [{ currentUrl: 'https://a.test', isLocked: 1 }],
+        });
+        expect(snapshot.masterUrl).toBe('https://example.com');
+        expect(snapshot.layout).toBe('auto');
+        expect(snapshot.scale).toBe(DEFAULT_GRID_VIEW.scale);
+        expect(snapshot.isSyncing).toBe(DEFAULT_GRID_VIEW.isSyncing);
+        expect(snapshot.loadingDelay).toBe(0);
+        expect(snapshot.maxConcurrent).toBe(DEFAULT_GRID_VIEW.maxConcurrent);
+        expect(snapshot.probeAlerts).toBe('off');
+        expect(snapshot.frames).toHaveLength(1);
+        expect(snapshot.frames[0]).toMatchObject({ currentUrl: 'https://a.test', isLocked: true });
+    });
+
+    it('normalizes malformed frames', () => {
+        const [frame, empty] = normalizeSnapshot({
+            frames: [
+                {
+                    currentUrl: 7,
+                    device: { profileId: 'toaster', width: 10 },
+                    refreshInterval: 1,
+                    policy: { sandbox: ['allow-scripts', 'allow-everything'], permissions: 'camera', referrerPolicy: 'sometimes' },
+                    review: { verdict: 'maybe', notes: 3, checklist: [{ text: 'Header', done: 1 }, 'Footer', { done: true }], reviewedAt: -1 },
+                    probe: { enabled: true, interval: 1, expectedStatus: 'ok' },
+                },
+                'not a frame',
+            ],
+        }).frames;
+        expect(frame.currentUrl).toBe('');
+        expect(frame.device).toEqual(DEFAULT_DEVICE);
+        expect(frame.refreshInterval).toBeGreaterThan(1);
+        expect(frame.policy).toMatchObject({ presetId: 'custom', sandbox: ['allow-scripts'], permissions: [] });
+        expect(frame.policy.referrerPolicy).toBe(DEFAULT_FRAME_POLICY.referrerPolicy);
+        expect(frame.review).toEqual({ verdict: 'untested', notes: '', checklist: [{ text: 'Header', done: true }], reviewedAt: null });
+        expect(frame.probe).toEqual({ enabled: true, interval: 5000, expectedStatus: DEFAULT_PROBE.expectedStatus });
+        expect(empty).toMatchObject({ currentUrl: '', device: DEFAULT_DEVICE, policy: DEFAULT_FRAME_POLICY, review: DEFAULT_REVIEW });
+    });
+
+    it('keeps unsandboxed policies and custom device sizes', () => {
+        const [frame] = normalizeSnapshot({
+            frames: [{ device: { profileId: 'custom', width: 900, height: 700, landscape: true }, policy: { sandbox: null } }],
+        }).frames;
+        expect(frame.device).toEqual({ profileId: 'custom', width: 900, height: 700, landscape: true });
+        expect(frame.policy.sandbox).toBeNull();
+    });
+});
+
+describe('snapshot payloads', () => {
+    it('round-trips a snapshot at the current version', () => {
+        const snapshot = normalizeSnapshot({ masterUrl: 'https://example.com', layout: '2x2', frames: [{ currentUrl: 'https://a.test' }] });
+        expect(snapshot.layout).toBe('2x2');
+        expect(readSnapshotPayload(JSON.parse(JSON.stringify(toSnapshotPayload(snapshot))))).toEqual(snapshot);
+    });
+
+    it('rejects missing, invalid and newer versions', () => {
+        expect(() => readSnapshotPayload({ state: {} })).toThrow(/invalid workspace schema version/);
+        expect(() => readSnapshotPayload({ version: '1', state: {} })).toThrow(/invalid workspace schema version/);
+        expect(() => readSnapshotPayload({ version: 0, state: {} })).toThrow(/invalid workspace schema version/);
+        expect(() => readSnapshotPayload(null)).toThrow(/invalid workspace schema version/);
+        expect(() => readSnapshotPayload({ version: WORKSPACE_SCHEMA_VERSION + 1, state: {} })).toThrow(/newer than this app supports/);
+    });
+});
+
+// A grid as saved by the first schema version, before labels, policies and the rest
+const V1_STATE = {
+    masterUrl: 'https://example.com',
+    layout: '2x2',
+    scale: 0.5,
+    isSyncing: false,
+    loadingDelay: 1600,
+    frames: [
+        { currentUrl: 'https://example.com', isLocked: false, device: { profileId: 'fill', width: 0, height: 0, landscape: false } },
+        { currentUrl: 'https://other.test', isLocked: true, device: { profileId: 'custom', width: 800, height: 600, landscape: false } },
+    ],
+};
+
+describe('migrations', () => {
+    it('upgrades v1 snapshots', () => {
+        const snapshot = readSnapshotPayload({ version: 1, state: V1_STATE });
+        expect(snapshot).toMatchObject({ masterUrl: 'https://example.com', layout: '2x2', scale: 0.5, isSyncing: false, loadingDelay: 1600 });
+        expect(snapshot).toMatchObject({ loadTimeout: 15000, maxConcurrent: 4, suspendOffscreen: false, isMirroring: false });
+        expect(snapshot.matrix).toEqual({ mode: 'template', template: '', variables: [], list: '' });
+        expect(snapshot.frames.map(f => f.currentUrl)).toEqual(['https://example.com', 'https://other.test']);
+        expect(snapshot.frames[1]).toMatchObject({ isLocked: true, label: '', refreshInterval: 0, refreshPaused: false });
+        expect(snapshot.frames[1].device).toEqual({ profileId: 'custom', width: 800, height: 600, landscape: false });
+        expect(snapshot.frames[0].policy).toEqual(DEFAULT_FRAME_POLICY);
+        expect(snapshot.frames[1].review).toEqual(DEFAULT_REVIEW);
+        expect(snapshot.frames[1].probe).toEqual(DEFAULT_PROBE);
+    });
+
+    it('upgrades v2 snapshots', () => {
+        const state = { ...V1_STATE, frames: [{ ...V1_STATE.frames[0], label: 'Home', policy: DEFAULT_FRAME_POLICY }] };
+        const snapshot = readSnapshotPayload({ version: 2, state });
+        expect(snapshot.frames[0]).toMatchObject({ label: 'Home', review: DEFAULT_REVIEW });
+    });
+
+    it('upgrades v3 snapshots', () => {
+        const state = { ...V1_STATE, frames: [{ ...V1_STATE.frames[0], policy: DEFAULT_FRAME_POLICY, review: { verdict: 'fail' } }] };
+        const snapshot = readSnapshotPayload({ version: 3, state });
+        expect(snapshot.probeAlerts).toBe('off');
+        expect(snapshot.frames[0].review.verdict).toBe('fail');
+        expect(snapshot.frames[0].probe).toEqual(DEFAULT_PROBE);
+    });
+
+    it('keeps newer fields already present in older payloads', () => {
+        const snapshot = readSnapshotPayload({
+            version: 1,
+            state: { ...V1_STATE, isMirroring: true, frames: [{ ...V1_STATE.frames[0], label: 'Home', policy: { sandbox: null } }] },
+        });
+        expect(snapshot.isMirroring).toBe(true);
+        expect(snapshot.frames[0].label).toBe('Home');
+        expect(readSnapshotPayload({ version: 2, state: { frames: [{ review: { verdict: 'pass' } }] } }).frames[0].review.verdict).toBe('pass');
+        expect(snapshot.frames[0].policy.sandbox).toBeNull();
+    });
+
+    it('upgrades every workspace of an old export', () => {
+        const text = JSON.stringify({ format: 'omniview-workspaces', version: 1, workspaces: [{ id: 'a', name: 'Old', updatedAt: 1, state: V1_STATE }] });
+        const [workspace] = parseWorkspaceExport(text);
+        expect(workspace.state.frames[1].isLocked).toBe(true);
+        expect(workspace.state.frames[1].policy).toEqual(DEFAULT_FRAME_POLICY);
+    });
+
+    it('upgrades stored sessions', () => {
+        storage.set('omniview.session', JSON.stringify({ version: 1, state: V1_STATE }));
+        expect(loadSession()?.frames[0].policy).toEqual(DEFAULT_FRAME_POLICY);
+    });
+});
+
+describe('parseWorkspaceExport', () => {
+    it('round-trips exported workspaces', () => {
+        const workspaces: Workspace[] = [
+            { id: 'abc', name: 'Checkout', updatedAt: 1000, state: normalizeSnapshot({ masterUrl: 'https://shop.test' }) },
+        ];
+        expect(parseWorkspaceExport(serializeWorkspaces(workspaces))).toEqual(workspaces);
+    });
+
+    it('explains why a file cannot be imported', () => {
+        expect(() => parseWorkspaceExport('{')).toThrow('File is not valid JSON');
+        expect(() => parseWorkspaceExport('[]')).toThrow('File is not an OmniView workspace export');
+        expect(() => parseWorkspaceExport(JSON.stringify({ format: 'other', version: 1 }))).toThrow('File is not an OmniView workspace export');
+        expect(() => parseWorkspaceExport(exportOf({ version: undefined }))).toThrow(/invalid workspace schema version/);
+        expect(() => parseWorkspaceExport(exportOf({ version: 999 }))).toThrow(/newer than this app supports/);
+        expect(() => parseWorkspaceExport(exportOf({ workspaces: {} }))).toThrow('Export contains no workspaces');
+    });
+
+    it('normalizes malformed workspace entries', () => {
+        const [named, unnamed] = parseWorkspaceExport(exportOf({ workspaces: [{ id: 'x', name: '  Staging  ', updatedAt: 5 }, 'junk'] }));
+        expect(named).toMatchObject({ id: 'x', name: 'Staging', updatedAt: 5 });
+        expect(named.state.frames).toHaveLength(DEFAULT_FRAME_COUNT);
+        expect(unnamed.name).toBe('Untitled workspace');
+        expect(unnamed.id).toMatch(/^[a-z0-9]+$/);
+    });
+});
+
+describe('stored session and workspaces', () => {
+    it('restores the saved session', () => {
+        const snapshot = normalizeSnapshot({ masterUrl: 'https://example.com' });
+        saveSession(snapshot);
+        expect(loadSession()).toEqual(snapshot);
+    });
+
+    it('ignores unreadable or unsupported entries', () => {
+        expect(loadSession()).toBeNull();
+        storage.set('omniview.session', 'not json');
+        expect(loadSession()).toBeNull();
+        storage.set('omniview.session', JSON.stringify({ version: 999, state: {} }));
+        expect(loadSession()).toBeNull();
+        storage.set('omniview.workspaces', JSON.stringify({ version: WORKSPACE_SCHEMA_VERSION, workspaces: 'none' }));
+        expect(loadWorkspaces()).toEqual([]);
+    });
+});
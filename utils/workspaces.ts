@@ -0,0 +1,341 @@
+// Saved workspaces: named grid configurations persisted to localStorage and
+// shared as versioned JSON exports.
+import { LayoutPreset, isLayoutPreset, clampFrameCount, DEFAULT_FRAME_COUNT } from './gridLayout';
+import { FrameDevice, DEFAULT_DEVICE, DEVICE_PROFILES, clampViewport } from './devices';
+import { UrlMatrix, DEFAULT_MATRIX, syncVariables } from './urlMatrix';
+import { DEFAULT_LOAD_TIMEOUT, DEFAULT_MAX_CONCURRENT } from './frameLoad';
+import { MIN_REFRESH_INTERVAL } from './autoRefresh';
+import {
+    FramePolicy,
+    DEFAULT_FRAME_POLICY,
+    isSandboxToken,
+    isPermissionFeature,
+    isReferrerPolicy,
+    matchPreset,
+} from './framePolicy';
+import { FrameReview, DEFAULT_REVIEW, isQaVerdict } from './qaReview';
+import { ProbeSettings, ProbeAlertMode, DEFAULT_PROBE, MIN_PROBE_INTERVAL, isProbeAlertMode, parseExpectedStatus } from './uptime';
+
+export interface FrameSnapshot {
+    currentUrl: string;
+    isLocked: boolean;
+    device: FrameDevice;
+    label: string;
+    refreshInterval: number;
+    refreshPaused: boolean;
+    policy: FramePolicy;
+    review: FrameReview;
+    probe: ProbeSettings;
+}
+
+// State owned by BrowserGrid
+export interface GridViewState {
+    scale: number;
+    isSyncing: boolean;
+    loadingDelay: number;
+    loadTimeout: number;
+    maxConcurrent: number;
+    suspendOffscreen: boolean;
+    isMirroring: boolean;
+    matrix: UrlMatrix;
+    probeAlerts: ProbeAlertMode;
+    frames: FrameSnapshot[];
+}
+
+// Everything needed to rebuild a grid, including state owned by App
+export interface GridSnapshot extends GridViewState {
+    masterUrl: string;
+    layout: LayoutPreset;
+}
+
+export interface Workspace {
+    id: string;
+    name: string;
+    updatedAt: number;
+    state: GridSnapshot;
+}
+
+// Bump whenever the persisted shape changes, and add a migration from the previous version.
+// Normalizers only repair invalid values; what older versions lacked is filled in by the migrations.
+export const WORKSPACE_SCHEMA_VERSION = 4;
+
+const EXPORT_FORMAT = 'omniview-workspaces';
+
+const STORAGE_KEYS = {
+    workspaces: 'omniview.workspaces',
+    session: 'omniview.session',
+};
+
+// Untrusted JSON, read field by field
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asRecord = (value: unknown): RawRecord => (isRecord(value) ? value : {});
+
+// Sandbox every frame had before per-frame policies (v2)
+const V1_FRAME_POLICY: FramePolicy = {
+    presetId: 'app-default',
+    sandbox: ['allow-scripts', 'allow-same-origin', 'allow-forms', 'allow-popups', 'allow-popups-to-escape-sandbox', 'allow-modals', 'allow-downloads'],
+    permissions: [],
+    referrerPolicy: 'no-referrer',
+};
+
+const upgradeFrames = (snapshot: RawRecord, upgrade: (frame: RawRecord) => RawRecord) =>
+    Array.isArray(snapshot.frames) ? snapshot.frames.map(f => upgrade(asRecord(f))) : snapshot.frames;
+
+// Each entry upgrades a raw grid snapshot from version N to N + 1. Fields the snapshot already
+// has are kept: they may have been written by a build that predates the version bump.
+const MIGRATIONS: Record<number, (snapshot: RawRecord) => RawRecord> = {
+    // v2: frame labels, auto-refresh and policies; the URL matrix, load timeout, parallel
+    // loads, offscreen suspension and mirroring. v1 grids start with these features off (or at
+    // the settings they shipped with), and frames keep the sandbox they had before policies.
+    1: snapshot => ({
+        matrix: { mode: 'template', template: '', variables: [], list: '' },
+        loadTimeout: 15000,
+        maxConcurrent: 4,
+        suspendOffscreen: false,
+        isMirroring: false,
+        ...snapshot,
+        frames: upgradeFrames(snapshot, frame => ({
+            label: '',
+            refreshInterval: 0,
+            refreshPaused: false,
+            policy: V1_FRAME_POLICY,
+            ...frame,
+        })),
+    }),
+    // v3: QA reviews. Frames saved or linked before reviews existed were never reviewed.
+    2: snapshot => ({
+        ...snapshot,
+        frames: upgradeFrames(snapshot, frame => ({
+            review: { verdict: 'untested', notes: '', checklist: [], reviewedAt: null },
+            ...frame,
+        })),
+    }),
+    // v4: uptime probes, which older grids never ran
+    3: snapshot => ({
+        probeAlerts: 'off',
+        ...snapshot,
+        frames: upgradeFrames(snapshot, frame => ({
+            probe: { enabled: false, interval: 60000, expectedStatus: '200-399' },
+            ...frame,
+        })),
+    }),
+};
+
+export const DEFAULT_GRID_VIEW: Omit<GridViewState, 'frames'> = {
+    scale: 0.75,
+    isSyncing: true,
+    loadingDelay: 800,
+    loadTimeout: DEFAULT_LOAD_TIMEOUT,
+    maxConcurrent: DEFAULT_MAX_CONCURRENT,
+    suspendOffscreen: false,
+    isMirroring: false,
+    matrix: DEFAULT_MATRIX,
+    probeAlerts: 'off',
+};
+
+export const createWorkspaceId = () => Math.random().toString(36).substring(2, 10);
+
+const migrateSnapshot = (snapshot: unknown, fromVersion: number) => {
+    let result = asRecord(snapshot);
+    for (let v = fromVersion; v < WORKSPACE_SCHEMA_VERSION; v++) {
+        result = MIGRATIONS[v](result);
+    }
+    return result;
+};
+
+// Upgrades every snapshot in a { version, state } or { version, workspaces } payload
+const migrate = (payload: unknown): RawRecord => {
+    const data = asRecord(payload);
+    const fromVersion = data.version;
+    if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+        throw new Error('Missing or invalid workspace schema version');
+    }
+    if (fromVersion > WORKSPACE_SCHEMA_VERSION) {
+        throw new Error(`Workspace schema v${fromVersion} is newer than this app supports (v${WORKSPACE_SCHEMA_VERSION})`);
+    }
+    const result: RawRecord = { ...data, version: WORKSPACE_SCHEMA_VERSION };
+    if ('state' in data) result.state = migrateSnapshot(data.state, fromVersion);
+    if (Array.isArray(data.workspaces)) {
+        result.workspaces = data.workspaces.map(w => ({ ...asRecord(w), state: migrateSnapshot(asRecord(w).state, fromVersion) }));
+    }
+    return result;
+};
+
+const normalizeDevice = (value: unknown): FrameDevice => {
+    const raw = asRecord(value);
+    const profile = DEVICE_PROFILES.find(p => p.id === raw.profileId);
+    if (!profile || profile.id === 'fill') return DEFAULT_DEVICE;
+    return {
+        profileId: profile.id,
+        width: clampViewport(Number(raw.width)),
+        height: clampViewport(Number(raw.height)),
+        landscape: !!raw.landscape,
+    };
+};
+
+const normalizePolicy = (value: unknown): FramePolicy => {
+    if (!isRecord(value)) return DEFAULT_FRAME_POLICY;
+    const sandbox = value.sandbox === null
+        ? null
+        : Array.isArray(value.sandbox) ? value.sandbox.filter(isSandboxToken) : DEFAULT_FRAME_POLICY.sandbox;
+    const permissions = Array.isArray(value.permissions) ? value.permissions.filter(isPermissionFeature) : [];
+    const referrerPolicy = isReferrerPolicy(value.referrerPolicy) ? value.referrerPolicy : DEFAULT_FRAME_POLICY.referrerPolicy;
+    return { presetId: matchPreset({ sandbox, permissions, referrerPolicy }), sandbox, permissions, referrerPolicy };
+};
+
+const normalizeReview = (value: unknown): FrameReview => {
+    if (!isRecord(value)) return DEFAULT_REVIEW;
+    return {
+        verdict: isQaVerdict(value.verdict) ? value.verdict : DEFAULT_REVIEW.verdict,
+        notes: typeof value.notes === 'string' ? value.notes : '',
+        checklist: Array.isArray(value.checklist)
+            ? value.checklist.map(asRecord).filter(item => typeof item.text === 'string').map(item => ({ text: item.text as string, done: !!item.done }))
+            : [],
+        reviewedAt: Number(value.reviewedAt) > 0 ? Number(value.reviewedAt) : null,
+    };
+};
+
+const normalizeProbe = (value: unknown): ProbeSettings => {
+    if (!isRecord(value)) return DEFAULT_PROBE;
+    const interval = Number(value.interval);
+    const { expectedStatus } = value;
+    return {
+        enabled: !!value.enabled,
+        interval: interval > 0 ? Math.max(MIN_PROBE_INTERVAL, interval) : DEFAULT_PROBE.interval,
+        expectedStatus: typeof expectedStatus === 'string' && parseExpectedStatus(expectedStatus) ? expectedStatus : DEFAULT_PROBE.expectedStatus,
+    };
+};
+
+const normalizeFrame = (value: unknown): FrameSnapshot => {
+    const raw = asRecord(value);
+    const refreshInterval = Number(raw.refreshInterval);
+    return {
+        currentUrl: typeof raw.currentUrl === 'string' ? raw.currentUrl : '',
+        isLocked: !!raw.isLocked,
+        device: normalizeDevice(raw.device),
+        label: typeof raw.label === 'string' ? raw.label : '',
+        refreshInterval: refreshInterval > 0 ? Math.max(MIN_REFRESH_INTERVAL, refreshInterval) : 0,
+        refreshPaused: !!raw.refreshPaused,
+        policy: normalizePolicy(raw.policy),
+        review: normalizeReview(raw.review),
+        probe: normalizeProbe(raw.probe),
+    };
+};
+
+const normalizeMatrix = (value: unknown): UrlMatrix => {
+    const raw = asRecord(value);
+    const template = typeof raw.template === 'string' ? raw.template : '';
+    const variables = Array.isArray(raw.variables)
+        ? raw.variables.map(asRecord).filter(v => typeof v.name === 'string').map(v => ({ name: v.name as string, values: String(v.values ?? '') }))
+        : [];
+    return {
+        mode: raw.mode === 'list' ? 'list' : 'template',
+        template,
+        variables: syncVariables(template, variables),
+        list: typeof raw.list === 'string' ? raw.list : DEFAULT_MATRIX.list,
+    };
+};
+
+// Coerce already-migrated data into a valid snapshot, falling back to defaults field by field
+export const normalizeSnapshot = (value: unknown): GridSnapshot => {
+    const raw = asRecord(value);
+    const frames = Array.isArray(raw.frames) ? raw.frames.map(normalizeFrame) : [];
+    const count = frames.length ? clampFrameCount(frames.length) : DEFAULT_FRAME_COUNT;
+    const scale = Number(raw.scale);
+    const loadingDelay = Number(raw.loadingDelay);
+    const loadTimeout = Number(raw.loadTimeout);
+    const maxConcurrent = Number(raw.maxConcurrent);
+
+    return {
+        masterUrl: typeof raw.masterUrl === 'string' ? raw.masterUrl : '',
+        layout: isLayoutPreset(raw.layout) ? raw.layout : 'auto',
+        scale: scale >= 0.25 && scale <= 1 ? scale : DEFAULT_GRID_VIEW.scale,
+        isSyncing: typeof raw.isSyncing === 'boolean' ? raw.isSyncing : DEFAULT_GRID_VIEW.isSyncing,
+        loadingDelay: loadingDelay >= 0 ? loadingDelay : DEFAULT_GRID_VIEW.loadingDelay,
+        loadTimeout: loadTimeout > 0 ? loadTimeout : DEFAULT_GRID_VIEW.loadTimeout,
+        maxConcurrent: Number.isInteger(maxConcurrent) && maxConcurrent >= 0 ? maxConcurrent : DEFAULT_GRID_VIEW.maxConcurrent,
+        suspendOffscreen: typeof raw.suspendOffscreen === 'boolean' ? raw.suspendOffscreen : DEFAULT_GRID_VIEW.suspendOffscreen,
+        isMirroring: typeof raw.isMirroring === 'boolean' ? raw.isMirroring : DEFAULT_GRID_VIEW.isMirroring,
+        matrix: normalizeMatrix(raw.matrix),
+        probeAlerts: isProbeAlertMode(raw.probeAlerts) ? raw.probeAlerts : DEFAULT_GRID_VIEW.probeAlerts,
+        frames: Array(count).fill(null).map((_, i) => frames[i] ?? normalizeFrame(null)),
+    };
+};
+
+const normalizeWorkspace = (value: unknown): Workspace => {
+    const raw = asRecord(value);
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : createWorkspaceId(),
+        name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Untitled workspace',
+        updatedAt: Number(raw.updatedAt) || Date.now(),
+        state: normalizeSnapshot(raw.state),
+    };
+};
+
+// Both localStorage entries and export files wrap their payload as { version, ... }.
+// Unreadable entries (corrupt, or from a newer app) read as the fallback.
+const readVersioned = <T>(key: string, read: (data: RawRecord) => T, fallback: T): T => {
+    try {
+        const stored = localStorage.getItem(key);
+        return stored ? read(migrate(JSON.parse(stored))) : fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+// Best effort: a full or unavailable storage keeps the previous value
+const writeVersioned = (key: string, payload: object) => {
+    try {
+        localStorage.setItem(key, JSON.stringify({ version: WORKSPACE_SCHEMA_VERSION, ...payload }));
+    } catch {
+        // Nothing to recover
+    }
+};
+
+// Reads a { version, state } payload, migrating older schema versions. Throws on unsupported versions.
+export const readSnapshotPayload = (payload: unknown): GridSnapshot =>
+    normalizeSnapshot(migrate(payload).state);
+
+export const toSnapshotPayload = (state: GridSnapshot) => ({ version: WORKSPACE_SCHEMA_VERSION, state });
+
+export const loadWorkspaces = (): Workspace[] =>
+    readVersioned(STORAGE_KEYS.workspaces, data => (Array.isArray(data.workspaces) ? data.workspaces.map(normalizeWorkspace) : []), []);
+
+export const saveWorkspaces = (workspaces: Workspace[]) =>
+    writeVersioned(STORAGE_KEYS.workspaces, { workspaces });
+
+// The session is the live grid, restored after a reload
+export const loadSession = (): GridSnapshot | null =>
+    readVersioned<GridSnapshot | null>(STORAGE_KEYS.session, data => normalizeSnapshot(data.state), null);
+
+export const saveSession = (state: GridSnapshot) =>
+    writeVersioned(STORAGE_KEYS.session, { state });
+
+export const serializeWorkspaces = (workspaces: Workspace[]) => JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: WORKSPACE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    workspaces,
+}, null, 2);
+
+// Parses an export file, migrating older schema versions. Throws with a readable message on bad input.
+export const parseWorkspaceExport = (text: string): Workspace[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('File is not valid JSON');
+    }
+    if (asRecord(parsed).format !== EXPORT_FORMAT) {
+        throw new Error('File is not an OmniView workspace export');
+    }
+    const data = migrate(parsed);
+    if (!Array.isArray(data.workspaces)) {
+        throw new Error('Export contains no workspaces');
+    }
+    return data.workspaces.map(normalizeWorkspace);
+};
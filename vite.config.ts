@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { uptimeProbe } from './services/uptimeProbe';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +10,19 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        // Comma-separated hosts ("localhost:8080", "intranet.lan" or "*") the uptime probe may reach on private networks
+        uptimeProbe({ allowPrivateHosts: (env.OMNIVIEW_PROBE_PRIVATE_HOSTS ?? '').split(',').map(h => h.trim()).filter(Boolean) }),
+      ],
+      build: {
+        rollupOptions: {
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            controller: path.resolve(__dirname, 'controller.html'),
+          }
+        }
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)